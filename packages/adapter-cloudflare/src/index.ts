@@ -153,7 +153,9 @@ export default {
   async fetch(request, env, ctx) {
     request.__cf_env = env;
     request.__cf_ctx = ctx;
-    return app.handle(request);
+    // CF-Connecting-IP is only Cloudflare's when the edge attached request.cf
+    const remoteAddress = request.cf ? request.headers.get('cf-connecting-ip') ?? undefined : undefined;
+    return app.handle(request, { remoteAddress });
   },
 };
 `;
@@ -161,8 +163,24 @@ export default {
 
 // ─── Worker Handler Wrapper ───
 
+/**
+ * The client address from CF-Connecting-IP. Cloudflare's edge overwrites
+ * that header and attaches `request.cf`; a request without `cf` did not
+ * come through the edge, so its header could say anything and is ignored.
+ */
+function clientAddress(request: Request): string | undefined {
+  if (!(request as { cf?: unknown }).cf) return undefined;
+  return request.headers.get('cf-connecting-ip') ?? undefined;
+}
+
+/**
+ * Wrap an app as a Worker's fetch handler. `request.ip` is the client
+ * Cloudflare's edge reports. A Worker called through a service binding
+ * receives whatever headers the calling Worker forwards, so only trust
+ * `request.ip` there if the caller does.
+ */
 export function createWorkerHandler(app: {
-  handle(request: Request): Promise<Response> | Response;
+  handle(request: Request, connection?: { remoteAddress?: string }): Promise<Response> | Response;
 }): CloudflareWorkerHandler {
   return {
     async fetch(
@@ -172,7 +190,8 @@ export function createWorkerHandler(app: {
     ): Promise<Response> {
       (request as CloudflareRequest).__cf_env = env;
       (request as CloudflareRequest).__cf_ctx = ctx;
-      return app.handle(request);
+      // Workers have no socket; Cloudflare's edge reports the client in CF-Connecting-IP
+      return app.handle(request, { remoteAddress: clientAddress(request) });
     },
   };
 }
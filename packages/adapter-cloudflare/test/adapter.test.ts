@@ -103,7 +103,8 @@ describe('generateWorkerEntry', () => {
     expect(entry).toContain('import app from');
     expect(entry).toContain('export default');
     expect(entry).toContain('async fetch(request, env, ctx)');
-    expect(entry).toContain('app.handle(request)');
+    expect(entry).toContain("request.cf ? request.headers.get('cf-connecting-ip') ?? undefined : undefined");
+    expect(entry).toContain('app.handle(request, { remoteAddress })');
   });
 
   it('attaches env and ctx bindings to request', () => {
@@ -160,6 +161,25 @@ describe('createWorkerHandler', () => {
     expect((capturedRequest as any).__cf_env).toBe(env);
     expect((capturedRequest as any).__cf_ctx).toBe(ctx);
   });
+
+  it('passes CF-Connecting-IP as the connection address for requests from the edge', async () => {
+    let captured: { remoteAddress?: string } | undefined;
+    const handler = createWorkerHandler({
+      handle: async (_req: Request, connection?: { remoteAddress?: string }) => {
+        captured = connection;
+        return new Response('ok');
+      },
+    });
+
+    const ctx = { waitUntil: () => {}, passThroughOnException: () => {} };
+    const request = () => new Request('https://example.com/', { headers: { 'cf-connecting-ip': '203.0.113.7' } });
+    await handler.fetch(Object.assign(request(), { cf: { country: 'NL' } }), {}, ctx);
+    expect(captured).toEqual({ remoteAddress: '203.0.113.7' });
+
+    // Without request.cf the header did not come from Cloudflare
+    await handler.fetch(request(), {}, ctx);
+    expect(captured).toEqual({ remoteAddress: undefined });
+  });
 });
 
 // ─── Adapter Integration ───
@@ -186,11 +186,11 @@ export async function responseToResult(response: Response): Promise<APIGatewayPr
 // ─── createLambdaHandler ───
 
 export function createLambdaHandler(
-  app: { handle(request: Request): Promise<Response> | Response },
+  app: { handle(request: Request, connection?: { remoteAddress?: string }): Promise<Response> | Response },
 ): (event: APIGatewayProxyEventV2, context: LambdaContext) => Promise<APIGatewayProxyResultV2> {
   return async (event: APIGatewayProxyEventV2, _context: LambdaContext): Promise<APIGatewayProxyResultV2> => {
     const request = eventToRequest(event);
-    const response = await app.handle(request);
+    const response = await app.handle(request, { remoteAddress: event.requestContext.http.sourceIp });
     return responseToResult(response);
   };
 }
@@ -193,6 +193,13 @@ describe('createLambdaHandler', () => {
     expect(mockApp.handle).toHaveBeenCalledTimes(1);
     expect(JSON.parse(result.body!).path).toBe('/api/hello');
   });
+
+  it('passes the source IP as the connection address', async () => {
+    const mockApp = { handle: vi.fn(async () => new Response('ok')) };
+
+    await createLambdaHandler(mockApp)(makeEvent(), makeLambdaContext());
+    expect(mockApp.handle).toHaveBeenCalledWith(expect.any(Request), { remoteAddress: '127.0.0.1' });
+  });
 });
 
 // ─── lambdaAdapter — SAM template generation ───
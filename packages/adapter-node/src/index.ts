@@ -3,6 +3,7 @@
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { readFile, stat } from 'node:fs/promises';
 import { join, extname } from 'node:path';
+import { writeNodeHeaders } from '@vura/server';
 import type { VuraApp } from '@vura/server';
 import type { RouteManifest, TaskManifest } from '@vura/build';
 
@@ -44,6 +45,7 @@ import { createServer } from 'node:http';
 import { readFile, stat } from 'node:fs/promises';
 import { join, extname } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { writeNodeHeaders } from '@vura/server';
 
 // Import the built server
 import app from './entry-server.js';
@@ -110,14 +112,15 @@ const server = createServer(async (req, res) => {
     duplex: hasBody ? 'half' : undefined,
   });
 
-  // Handle with VuraApp
-  const response = await (typeof app.handle === 'function' ? app.handle(webRequest) : app.fetch(webRequest));
+  // Handle with VuraApp, or any module exporting a fetch handler (given the socket as Deno's handler info)
+  const remoteAddress = req.socket.remoteAddress;
+  const response = await (typeof app.handle === 'function'
+    ? app.handle(webRequest, { remoteAddress })
+    : app.fetch(webRequest, { remoteAddr: { transport: 'tcp', hostname: remoteAddress, port: req.socket.remotePort } }));
 
   // Write response
   res.statusCode = response.status;
-  for (const [key, value] of response.headers.entries()) {
-    res.setHeader(key, value);
-  }
+  writeNodeHeaders(res, response.headers);
 
   if (response.body) {
     const reader = response.body.getReader();
@@ -186,10 +189,10 @@ export function serve(app: VuraApp, options: NodeAdapterOptions = {}): void {
     }
 
     // Convert Node request to Web Standard Request
-    const webRequest = nodeToWebRequest(req, url);
+    const webRequest = nodeToWebRequest(req, url, res);
 
     try {
-      const response = await app.handle(webRequest);
+      const response = await app.handle(webRequest, { remoteAddress: req.socket.remoteAddress });
       await writeWebResponse(res, response);
     } catch (error) {
       console.error('[vura] Unhandled error:', error);
@@ -205,7 +208,11 @@ export function serve(app: VuraApp, options: NodeAdapterOptions = {}): void {
 
 // ─── Conversion Helpers ───
 
-export function nodeToWebRequest(req: IncomingMessage, url: URL): Request {
+/**
+ * Convert an IncomingMessage to a Request. Pass `res` to abort `request.signal`
+ * when the client disconnects before the response finishes (ends SSE streams).
+ */
+export function nodeToWebRequest(req: IncomingMessage, url: URL, res?: ServerResponse): Request {
   const headers = new Headers();
   for (const [key, value] of Object.entries(req.headers)) {
     if (typeof value === 'string') {
@@ -218,9 +225,15 @@ export function nodeToWebRequest(req: IncomingMessage, url: URL): Request {
   const method = req.method ?? 'GET';
   const hasBody = method !== 'GET' && method !== 'HEAD';
 
+  const controller = new AbortController();
+  res?.once('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
   return new Request(url.toString(), {
     method,
     headers,
+    signal: controller.signal,
     body: hasBody ? (req as unknown as ReadableStream) : undefined,
     // @ts-expect-error Node.js specific duplex option
     duplex: hasBody ? 'half' : undefined,
@@ -232,10 +245,7 @@ export async function writeWebResponse(
   response: Response,
 ): Promise<void> {
   res.statusCode = response.status;
-
-  for (const [key, value] of response.headers.entries()) {
-    res.setHeader(key, value);
-  }
+  writeNodeHeaders(res, response.headers);
 
   if (response.body) {
     const reader = response.body.getReader();
@@ -243,6 +253,11 @@ export async function writeWebResponse(
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
+        if (res.destroyed) {
+          // Client went away — cancel so the producer stops
+          await reader.cancel();
+          break;
+        }
         res.write(value);
       }
     } finally {
@@ -113,6 +113,7 @@ async function generateFunction(
 
   // index.mjs — serverless function entry
   const entryCode = `
+import { writeNodeHeaders } from '@vura/server';
 import handler from '${handlerPath}';
 
 export default async function(req, res) {
@@ -131,12 +132,10 @@ export default async function(req, res) {
     duplex: hasBody ? 'half' : undefined,
   });
 
-  const response = await handler.handle(webRequest);
+  const response = await handler.handle(webRequest, { remoteAddress: req.socket.remoteAddress });
 
   res.statusCode = response.status;
-  for (const [key, value] of response.headers.entries()) {
-    res.setHeader(key, value);
-  }
+  writeNodeHeaders(res, response.headers);
 
   if (response.body) {
     const reader = response.body.getReader();
@@ -2,6 +2,7 @@
 // Wraps what-compiler/vite and adds Vura-specific virtual modules
 
 import type { Plugin, ResolvedConfig, ViteDevServer } from 'vite';
+import { writeNodeHeaders } from '@vura/server';
 import type { VuraConfig } from '@vura/server';
 
 const VIRTUAL_ROUTES = 'virtual:vura-routes';
@@ -90,9 +91,7 @@ export function vuraVitePlugin(options: VuraVitePluginOptions = {}): Plugin[] {
 
             // Write response back to Node res
             res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
+            writeNodeHeaders(res, response.headers);
             const body = await response.text();
             res.end(body);
           } else {
@@ -123,9 +122,7 @@ export function vuraVitePlugin(options: VuraVitePluginOptions = {}): Plugin[] {
             const response = await handler.handle(webRequest);
 
             res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
+            writeNodeHeaders(res, response.headers);
             const body = await response.text();
             res.end(body);
           } else {
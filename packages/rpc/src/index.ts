@@ -19,4 +19,5 @@ export type {
   OpenAPISpec,
 } from './types.js';
 
+export type { RPCHandlerOptions } from './router.js';
 export type { RPCClientOptions } from './client.js';
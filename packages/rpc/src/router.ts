@@ -10,6 +10,8 @@ import type {
   ContextFactory,
 } from './types.js';
 import { encode, decode } from './wire.js';
+import { readMultipart, defaultStorage } from '@vura/server/multipart';
+import type { MultipartOptions, MultipartStorage, StoredFile } from '@vura/server/multipart';
 
 // ─── Router ───
 
@@ -19,15 +21,31 @@ export function router<T extends RouterDefinition>(routes: T): T {
 
 // ─── Handler ───
 
+export interface RPCHandlerOptions {
+  /**
+   * Limits and file storage for multipart inputs. Files arrive in the input
+   * as StoredFiles; with the default storage (a temp directory, or memory
+   * without `node:fs`) they are removed once the procedure has finished.
+   */
+  multipart?: Omit<MultipartOptions, 'signal'>;
+}
+
 export class RPCHandler {
   private flatRoutes = new Map<string, ProcedureDefinition>();
   private contextFactory: ContextFactory;
+  private multipart: Omit<MultipartOptions, 'signal'>;
+  private storage: Promise<MultipartStorage> | undefined;
 
   constructor(
     routes: RouterDefinition,
     contextFactory?: ContextFactory,
+    options: RPCHandlerOptions = {},
   ) {
     this.contextFactory = contextFactory ?? ((request) => ({ request }));
+    this.multipart = {
+      ...options.multipart,
+      cleanup: options.multipart?.cleanup ?? options.multipart?.storage === undefined,
+    };
     this.flattenRoutes(routes, '');
   }
 
@@ -54,6 +72,23 @@ export class RPCHandler {
 
   /** Handle a Web Standard Request for an RPC call */
   async handle(request: Request): Promise<Response> {
+    const uploads: StoredFile[] = [];
+    try {
+      return await this.handleCall(request, uploads);
+    } finally {
+      if (this.multipart.cleanup && uploads.length > 0) {
+        const storage = await this.multipartStorage();
+        await Promise.allSettled(uploads.map((file) => storage.remove(file.location)));
+      }
+    }
+  }
+
+  /** The configured storage, or the default one, chosen on first use */
+  private multipartStorage(): Promise<MultipartStorage> {
+    return (this.storage ??= this.multipart.storage ? Promise.resolve(this.multipart.storage) : defaultStorage());
+  }
+
+  private async handleCall(request: Request, uploads: StoredFile[]): Promise<Response> {
     const url = new URL(request.url);
     // Extract procedure path from URL: /_rpc/user.getById
     const rpcPath = url.pathname.replace(/^\/_rpc\//, '');
@@ -94,7 +129,20 @@ export class RPCHandler {
     } else {
       const contentType = request.headers.get('content-type') ?? '';
       if (contentType.includes('multipart/form-data')) {
-        rawInput = await request.formData();
+        // Streamed: fields become strings, files are written to storage as they arrive
+        try {
+          const { body, files } = await readMultipart(request.body ?? new ReadableStream(), contentType, {
+            ...this.multipart,
+            storage: await this.multipartStorage(),
+            signal: request.signal,
+          });
+          uploads.push(...files);
+          rawInput = body;
+        } catch (error) {
+          const status = (error as { statusCode?: number }).statusCode ?? 400;
+          const code = status === 413 ? 'PAYLOAD_TOO_LARGE' : 'PARSE_ERROR';
+          return this.errorResponse(status, code, error instanceof Error ? error.message : 'Invalid multipart body');
+        }
       } else {
         try {
           const body = await request.json();
@@ -138,7 +186,9 @@ export class RPCHandler {
       const message = error instanceof Error ? error.message : 'Internal error';
       const code = (error as { code?: string }).code ?? 'INTERNAL_ERROR';
       const status = (error as { statusCode?: number }).statusCode ?? 500;
-      return this.errorResponse(status, code, message);
+      // Errors may carry response headers (e.g. Retry-After on a 429)
+      const headers = (error as { headers?: Record<string, string> }).headers;
+      return this.errorResponse(status, code, message, undefined, headers);
     }
   }
 
@@ -168,13 +218,14 @@ export class RPCHandler {
     code: string,
     message: string,
     issues?: Array<{ message: string; path?: (string | number)[] }>,
+    headers?: Record<string, string>,
   ): Response {
     const response: RPCResponse = {
       error: { message, code, issues },
     };
     return new Response(JSON.stringify(response), {
       status,
-      headers: { 'content-type': 'application/json' },
+      headers: { ...headers, 'content-type': 'application/json' },
     });
   }
 
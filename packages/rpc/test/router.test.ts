@@ -1,4 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
+import { existsSync } from 'node:fs';
 import { router, RPCHandler } from '../src/router.js';
 import { procedure, createProcedure } from '../src/procedure.js';
 import type { MiddlewareFunction, RPCManifest } from '../src/types.js';
@@ -408,6 +409,68 @@ describe('RPCHandler', () => {
       expect(body.error.code).toBe('FORBIDDEN');
       expect(body.error.message).toBe('Not authorized');
     });
+
+    it('sends headers carried by a thrown error', async () => {
+      const routes = router({
+        limited: procedure.query(() => {
+          throw Object.assign(new Error('Too Many Requests'), {
+            code: 'TOO_MANY_REQUESTS',
+            statusCode: 429,
+            headers: { 'retry-after': '30' },
+          });
+        }),
+      });
+      const handler = new RPCHandler(routes);
+
+      const response = await handler.handle(makeRequest('limited'));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('retry-after')).toBe('30');
+      expect(response.headers.get('content-type')).toBe('application/json');
+    });
+  });
+
+  describe('handle() — multipart input', () => {
+    function uploadRequest(path: string, form: FormData): Request {
+      return new Request(`http://localhost/_rpc/${path}`, { method: 'POST', body: form });
+    }
+
+    it('streams files into storage and removes temporary ones afterwards', async () => {
+      const seen: Array<{ title: unknown; size: number; exists: boolean }> = [];
+      const routes = router({
+        upload: procedure.mutation(async ({ input }) => {
+          const { title, doc } = input as { title: string; doc: { location: string; size: number } };
+          seen.push({ title, size: doc.size, exists: existsSync(doc.location) });
+          return { location: doc.location };
+        }),
+      });
+      const handler = new RPCHandler(routes);
+
+      const form = new FormData();
+      form.append('title', 'Report');
+      form.append('doc', new File(['quarterly numbers'], 'report.txt', { type: 'text/plain' }));
+      const response = await handler.handle(uploadRequest('upload', form));
+
+      expect(response.status).toBe(200);
+      expect(seen).toEqual([{ title: 'Report', size: 17, exists: true }]);
+      const { result } = await response.json();
+      expect(existsSync(result.location)).toBe(false);
+    });
+
+    it('returns 413 when a multipart limit is exceeded', async () => {
+      const handlerFn = vi.fn(async () => 'ok');
+      const routes = router({ upload: procedure.mutation(handlerFn) });
+      const handler = new RPCHandler(routes, undefined, { multipart: { limits: { fileSize: 4 } } });
+
+      const form = new FormData();
+      form.append('doc', new File(['too large'], 'doc.txt'));
+      const response = await handler.handle(uploadRequest('upload', form));
+
+      expect(response.status).toBe(413);
+      const body = await response.json();
+      expect(body.error).toEqual({ code: 'PAYLOAD_TOO_LARGE', message: 'File "doc" exceeds 4 bytes' });
+      expect(handlerFn).not.toHaveBeenCalled();
+    });
   });
 
   describe('handle() — special routes', () => {
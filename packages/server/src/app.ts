@@ -1,13 +1,27 @@
 // @vura/server — VuraApp: hook-based server with plugin encapsulation
 
 import { Router } from './router.js';
-import { createReply } from './reply.js';
+import { createReply, serializedPayload } from './reply.js';
+import { compileRouteSchema, validateRequest, ValidationError, ResponseValidationError } from './validation.js';
+import { compileResponseSchemas } from './serializer.js';
+import { HOOK_NAMES, createHookStore } from './hooks.js';
+import { getPluginMeta, checkPlugin } from './plugin.js';
+import { parseCookies, unsignCookie, decryptCookie } from './cookie.js';
+import { createNegotiator } from './negotiation.js';
+import { ContentTypeParsers, DEFAULT_BODY_LIMIT, parseBody } from './body.js';
+import { multipartParser, releaseUploads } from './multipart.js';
+import { compileTrust, fetchConnection, resolveClient } from './proxy.js';
+import type { ClientInfo, ConnectionInfo } from './proxy.js';
+import type { ContentTypeMatcher, ContentTypeParser, ContentTypeParserOptions, ParseAs, ParsedAs } from './body.js';
 import type {
   VuraAppOptions,
   VuraRequest,
   VuraReply,
   HookHandler,
   OnErrorHandler,
+  PreSerializationHandler,
+  OnSendHandler,
+  HookFunction,
   HookName,
   RouteMethod,
   RouteHandler,
@@ -15,42 +29,88 @@ import type {
   PluginFunction,
   PluginOptions,
   PluginContext,
+  DecoratedPluginContext,
   InternalRoute,
+  RouteHooks,
+  DecorationValue,
+  ConstraintStrategy,
 } from './types.js';
 
-// ─── Hook Store ───
-
-interface HookStore {
-  onRequest: HookHandler[];
-  preParsing: HookHandler[];
-  preValidation: HookHandler[];
-  preHandler: HookHandler[];
-  preSerialization: HookHandler[];
-  onSend: HookHandler[];
-  onResponse: HookHandler[];
-  onError: OnErrorHandler[];
+// ─── Helpers ───
+
+/** Build a Response with `body` and the status/headers of `response` */
+function replaceBody(response: Response, body: unknown): Response {
+  response.body?.cancel().catch(() => {});
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+
+  const isBody = body === null
+    || typeof body === 'string'
+    || body instanceof ArrayBuffer
+    || ArrayBuffer.isView(body)
+    || body instanceof ReadableStream
+    || body instanceof Blob;
+  return new Response(isBody ? (body as BodyInit | null) : JSON.stringify(body), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
 }
 
-function createHookStore(): HookStore {
-  return {
-    onRequest: [],
-    preParsing: [],
-    preValidation: [],
-    preHandler: [],
-    preSerialization: [],
-    onSend: [],
-    onResponse: [],
-    onError: [],
-  };
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function containsPath(prefix: string, pathname: string): boolean {
+  return pathname === prefix || pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+}
+
+/** Expose an app decoration as a property (`app.db`) on each target, refusing to shadow the API */
+function exposeDecoration(targets: Iterable<object>, name: string, value: unknown, inherited: boolean): void {
+  const all = [...targets];
+  if (!inherited && all.some((target) => name in target)) {
+    throw new Error(`Decoration "${name}" conflicts with an existing property`);
+  }
+  for (const target of all) {
+    Object.defineProperty(target, name, { value, enumerable: true, configurable: true, writable: true });
+  }
+}
+
+/**
+ * View a plugin context with the decorations the caller has declared. They
+ * are only known to the type system, so this is the one place that asserts them.
+ */
+function widen<T>(api: PluginContext): T {
+  return api as unknown as T;
+}
+
+/** Assign per-request decorations; function values are factories */
+function applyDecorations(target: object, decorations: Map<string, unknown> | undefined): void {
+  if (!decorations) return;
+  for (const [key, value] of decorations) {
+    if (!(key in target)) {
+      (target as Record<string, unknown>)[key] = typeof value === 'function' ? value() : value;
+    }
+  }
 }
 
 // ─── Encapsulation Context ───
 
 class EncapsulationContext {
   readonly prefix: string;
-  readonly hooks: HookStore;
+  /** The hooks that apply here: the parent's followed by this context's own, resolved on access */
+  readonly hooks: RouteHooks;
+  /** Hooks added in this context itself */
+  private readonly ownHooks = createHookStore();
   readonly decorations: Map<string, unknown>;
   readonly requestDecorations: Map<string, unknown>;
+  readonly replyDecorations: Map<string, unknown>;
+  readonly parsers: ContentTypeParsers;
+  /** Names of plugins registered here or in an ancestor */
+  readonly plugins: Set<string>;
+  /** Objects exposing this context's app decorations: its plugin contexts and, at the root, the VuraApp */
+  readonly views = new Set<object>();
   readonly router: Router;
   private children: EncapsulationContext[] = [];
 
@@ -61,24 +121,28 @@ class EncapsulationContext {
   ) {
     this.prefix = parent ? parent.prefix + prefix : prefix;
 
-    // Inherit parent hooks (shallow copy — child adds to its own copy)
+    // Hooks are read through the parent chain, so hooks added to an ancestor
+    // after this context was created still apply to its routes
     if (parent) {
-      this.hooks = {
-        onRequest: [...parent.hooks.onRequest],
-        preParsing: [...parent.hooks.preParsing],
-        preValidation: [...parent.hooks.preValidation],
-        preHandler: [...parent.hooks.preHandler],
-        preSerialization: [...parent.hooks.preSerialization],
-        onSend: [...parent.hooks.onSend],
-        onResponse: [...parent.hooks.onResponse],
-        onError: [...parent.hooks.onError],
-      };
+      this.hooks = {} as RouteHooks;
+      for (const name of HOOK_NAMES) {
+        Object.defineProperty(this.hooks, name, {
+          enumerable: true,
+          get: () => [...parent.hooks[name], ...this.ownHooks[name]],
+        });
+      }
       this.decorations = new Map(parent.decorations);
       this.requestDecorations = new Map(parent.requestDecorations);
+      this.replyDecorations = new Map(parent.replyDecorations);
+      this.parsers = parent.parsers.clone();
+      this.plugins = new Set(parent.plugins);
     } else {
-      this.hooks = createHookStore();
+      this.hooks = this.ownHooks;
       this.decorations = new Map();
       this.requestDecorations = new Map();
+      this.replyDecorations = new Map();
+      this.parsers = ContentTypeParsers.withDefaults();
+      this.plugins = new Set();
     }
 
     // All contexts share the same router (routes stored with prefix)
@@ -91,8 +155,45 @@ class EncapsulationContext {
     return child;
   }
 
-  /** Build a PluginContext interface for this encapsulation level */
-  toPluginContext(): PluginContext {
+  /**
+   * The innermost context whose prefix contains `pathname`, whose hooks
+   * handle an unmatched request. Scopes that add no prefix of their own
+   * can't claim a path, but their prefixed descendants can.
+   */
+  scopeFor(pathname: string): EncapsulationContext {
+    for (const child of this.children) {
+      const inner = child.scopeFor(pathname);
+      if (inner !== child || (child.prefix !== this.prefix && containsPath(child.prefix, pathname))) {
+        return inner;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Hooks for a route declared in this context: the context's hooks followed
+   * by the route's own. Resolved on access, so hooks added to the context or
+   * an ancestor after the route is declared still apply.
+   */
+  routeHooks(opts?: Partial<RouteOptions>): RouteHooks {
+    const hooks = {} as RouteHooks;
+    for (const name of HOOK_NAMES) {
+      const own = toArray<unknown>(opts?.[name]);
+      Object.defineProperty(hooks, name, {
+        enumerable: true,
+        get: own.length === 0
+          ? () => this.hooks[name]
+          : () => [...this.hooks[name], ...own],
+      });
+    }
+    return hooks;
+  }
+
+  /**
+   * Build a PluginContext interface for this encapsulation level. Decoration
+   * types exist only at compile time, so the caller states them.
+   */
+  toPluginContext<TApp = {}, TRequest = {}, TReply = {}>(): DecoratedPluginContext<TApp, TRequest, TReply> {
     const ctx = this;
 
     const addRoute = (method: RouteMethod, url: string, handler: RouteHandler, opts?: Partial<RouteOptions>) => {
@@ -103,27 +204,39 @@ class EncapsulationContext {
         handler,
         opts?.kind ?? 'serverless',
         opts?.schema,
+        ctx.routeHooks(opts),
         {
-          onRequest: [
-            ...ctx.hooks.onRequest,
-            ...(opts?.onRequest ? (Array.isArray(opts.onRequest) ? opts.onRequest : [opts.onRequest]) : []),
-          ],
-          preHandler: [
-            ...ctx.hooks.preHandler,
-            ...(opts?.preHandler ? (Array.isArray(opts.preHandler) ? opts.preHandler : [opts.preHandler]) : []),
-          ],
-          preSerialization: [
-            ...ctx.hooks.preSerialization,
-            ...(opts?.preSerialization ? (Array.isArray(opts.preSerialization) ? opts.preSerialization : [opts.preSerialization]) : []),
-          ],
+          validators: compileRouteSchema(opts?.schema),
+          serializers: compileResponseSchemas(opts?.schema?.response),
+          constraints: opts?.constraints,
+          config: opts?.config,
+          bodyLimit: opts?.bodyLimit,
+          rawBody: opts?.rawBody,
+          parsers: ctx.parsers,
+          // Live maps: decorations added later in this context still apply
+          requestDecorations: ctx.requestDecorations,
+          replyDecorations: ctx.replyDecorations,
         },
       );
     };
 
-    return {
-      async register(plugin: PluginFunction, options: PluginOptions = {}) {
-        const childCtx = ctx.createChild(options.prefix ?? '');
-        await plugin(childCtx.toPluginContext(), options as Record<string, unknown>);
+    // decorate* return this same object; its widened type is the signature's
+    const api: PluginContext = {
+      async register<TOptions>(plugin: PluginFunction<TOptions>, options?: PluginOptions & TOptions) {
+        const opts = (options ?? {}) as PluginOptions & TOptions;
+        const meta = getPluginMeta(plugin);
+        if (meta) {
+          checkPlugin(meta, ctx);
+          ctx.plugins.add(meta.name);
+        }
+
+        // Non-encapsulated plugins decorate and hook into the registering context
+        const target = meta?.encapsulate === false ? ctx : ctx.createChild(opts.prefix ?? '');
+        await plugin(target.toPluginContext(), opts);
+      },
+
+      hasPlugin(name: string) {
+        return ctx.plugins.has(name);
       },
 
       route(options: RouteOptions) {
@@ -149,124 +262,234 @@ class EncapsulationContext {
         addRoute('DELETE', url, handler);
       },
 
-      addHook(name: HookName, handler: HookHandler | OnErrorHandler) {
-        if (name === 'onError') {
-          ctx.hooks.onError.push(handler as OnErrorHandler);
+      addHook(name: HookName, handler: HookFunction) {
+        (ctx.ownHooks[name] as HookFunction[]).push(handler);
+      },
+
+      addContentTypeParser(
+        type: ContentTypeMatcher,
+        optionsOrParser: ContentTypeParserOptions | ContentTypeParser<never>,
+        parser?: ContentTypeParser<never>,
+      ) {
+        if (typeof optionsOrParser === 'function') {
+          ctx.parsers.add(type, {}, optionsOrParser);
         } else {
-          (ctx.hooks[name] as HookHandler[]).push(handler as HookHandler);
+          ctx.parsers.add(type, optionsOrParser, parser!);
         }
       },
 
       decorate(name: string, value: unknown) {
+        exposeDecoration(ctx.views, name, value, ctx.decorations.has(name));
         ctx.decorations.set(name, value);
+        return widen(api);
+      },
+      getDecoration(name: string) {
+        return ctx.decorations.get(name);
       },
       decorateRequest(name: string, value: unknown) {
         ctx.requestDecorations.set(name, value);
+        return widen(api);
+      },
+      decorateReply(name: string, value: unknown) {
+        ctx.replyDecorations.set(name, value);
+        return widen(api);
       },
     };
+
+    // Decorations already in this context, inherited or added earlier
+    for (const [name, value] of ctx.decorations) {
+      exposeDecoration([api], name, value, true);
+    }
+    ctx.views.add(api);
+
+    return widen(api);
   }
 }
 
 // ─── VuraApp ───
 
-export class VuraApp {
-  private router = new Router();
+/** A VuraApp whose app decorations are readable as properties */
+export type DecoratedApp<TApp, TRequest, TReply> = VuraApp<TApp, TRequest, TReply> & TApp;
+
+export class VuraApp<TApp = {}, TRequest = {}, TReply = {}> {
+  private router: Router;
   private rootContext: EncapsulationContext;
-  private pluginContext: PluginContext;
+  private pluginContext: PluginContext<TApp, TRequest, TReply>;
+  private trustProxy: (address: string, hop: number) => boolean;
 
   constructor(private options: VuraAppOptions = {}) {
+    this.router = new Router({ onWarning: options.onRouteWarning });
     this.rootContext = new EncapsulationContext(null, options.prefix ?? '', this.router);
-    this.pluginContext = this.rootContext.toPluginContext();
+    // Root decorations, including those of non-encapsulated plugins, show up as app.<name>
+    this.rootContext.views.add(this);
+    this.trustProxy = compileTrust(options.trustProxy);
+    // Multipart streams files to storage, so per-part limits bound it rather than bodyLimit
+    this.rootContext.parsers.add(
+      'multipart/form-data',
+      { parseAs: 'stream', bodyLimit: Infinity },
+      multipartParser(options.multipart),
+    );
+    this.pluginContext = this.rootContext.toPluginContext<TApp, TRequest, TReply>();
   }
 
   // ─── Registration (delegate to plugin context) ───
 
-  async register(plugin: PluginFunction, options?: PluginOptions): Promise<void> {
+  async register<TOptions extends Record<string, unknown> = Record<string, unknown>>(
+    plugin: PluginFunction<TOptions, TApp, TRequest, TReply>,
+    options?: PluginOptions & TOptions,
+  ): Promise<void> {
     return this.pluginContext.register(plugin, options);
   }
 
-  route(options: RouteOptions): void {
+  hasPlugin(name: string): boolean {
+    return this.pluginContext.hasPlugin(name);
+  }
+
+  route(options: RouteOptions<TRequest, TReply>): void {
     this.pluginContext.route(options);
   }
 
-  get(url: string, handler: RouteHandler): void {
+  get(url: string, handler: RouteHandler<TRequest, TReply>): void {
     this.pluginContext.get(url, handler);
   }
 
-  post(url: string, handler: RouteHandler): void {
+  post(url: string, handler: RouteHandler<TRequest, TReply>): void {
     this.pluginContext.post(url, handler);
   }
 
-  put(url: string, handler: RouteHandler): void {
+  put(url: string, handler: RouteHandler<TRequest, TReply>): void {
     this.pluginContext.put(url, handler);
   }
 
-  patch(url: string, handler: RouteHandler): void {
+  patch(url: string, handler: RouteHandler<TRequest, TReply>): void {
     this.pluginContext.patch(url, handler);
   }
 
-  delete(url: string, handler: RouteHandler): void {
+  delete(url: string, handler: RouteHandler<TRequest, TReply>): void {
     this.pluginContext.delete(url, handler);
   }
 
-  addHook(name: 'onError', handler: OnErrorHandler): void;
-  addHook(name: Exclude<HookName, 'onError'>, handler: HookHandler): void;
-  addHook(name: HookName, handler: HookHandler | OnErrorHandler): void {
+  addHook(name: 'onError', handler: OnErrorHandler<TRequest, TReply>): void;
+  addHook(name: 'preSerialization', handler: PreSerializationHandler<TRequest, TReply>): void;
+  addHook(name: 'onSend', handler: OnSendHandler<TRequest, TReply>): void;
+  addHook(
+    name: Exclude<HookName, 'onError' | 'preSerialization' | 'onSend'>,
+    handler: HookHandler<void | Response, TRequest, TReply>,
+  ): void;
+  addHook(name: HookName, handler: (...args: never[]) => unknown): void {
     this.pluginContext.addHook(name, handler as HookHandler);
   }
 
-  decorate(name: string, value: unknown): void {
+  /**
+   * Parse bodies of a media type (or RegExp, or `*`) into `request.parsedBody`.
+   * Replaces the built-in parser for that type; inside `register`, only that
+   * scope's routes use it.
+   */
+  addContentTypeParser(type: ContentTypeMatcher, parser: ContentTypeParser<string>): void;
+  addContentTypeParser<P extends ParseAs = 'string'>(
+    type: ContentTypeMatcher,
+    options: ContentTypeParserOptions<P>,
+    parser: ContentTypeParser<ParsedAs<P>>,
+  ): void;
+  addContentTypeParser(
+    type: ContentTypeMatcher,
+    optionsOrParser: ContentTypeParserOptions | ContentTypeParser<never>,
+    parser?: ContentTypeParser<never>,
+  ): void {
+    const options = optionsOrParser as ContentTypeParserOptions;
+    this.pluginContext.addContentTypeParser(type, options, parser as ContentTypeParser<ParsedAs<ParseAs>>);
+  }
+
+  /** Register a custom route constraint strategy; do so before routes use it */
+  addConstraintStrategy(strategy: ConstraintStrategy): void {
+    this.router.addConstraintStrategy(strategy);
+  }
+
+  // ─── Decorators (each returns the app with a widened type) ───
+
+  decorate<K extends string, V>(name: K, value: V): DecoratedApp<TApp & Record<K, V>, TRequest, TReply> {
     this.pluginContext.decorate(name, value);
+    return this as unknown as DecoratedApp<TApp & Record<K, V>, TRequest, TReply>;
   }
 
-  decorateRequest(name: string, value: unknown): void {
+  decorateRequest<K extends string, V>(
+    name: K,
+    value: V,
+  ): DecoratedApp<TApp, TRequest & Record<K, DecorationValue<V>>, TReply> {
     this.pluginContext.decorateRequest(name, value);
+    return this as unknown as DecoratedApp<TApp, TRequest & Record<K, DecorationValue<V>>, TReply>;
+  }
+
+  decorateReply<K extends string, V>(
+    name: K,
+    value: V,
+  ): DecoratedApp<TApp, TRequest, TReply & Record<K, DecorationValue<V>>> {
+    this.pluginContext.decorateReply(name, value);
+    return this as unknown as DecoratedApp<TApp, TRequest, TReply & Record<K, DecorationValue<V>>>;
+  }
+
+  getDecoration<K extends keyof TApp & string>(name: K): TApp[K];
+  getDecoration<T = unknown>(name: string): T | undefined;
+  getDecoration(name: string): unknown {
+    return this.pluginContext.getDecoration(name);
   }
 
   // ─── Request Handling ───
 
   /**
    * Handle a Web Standard Request → Response.
-   * This is the core entry point used by all adapters.
+   * This is the core entry point used by all adapters; they pass the socket
+   * address in `connection` for `request.ip`.
    */
-  async handle(request: Request): Promise<Response> {
+  async handle(request: Request, connection?: ConnectionInfo): Promise<Response> {
     const url = new URL(request.url);
     const method = request.method.toUpperCase() as RouteMethod;
     const pathname = url.pathname;
 
-    // Match route
-    const match = this.router.match(method, pathname);
-    if (!match) {
-      return new Response('Not Found', { status: 404 });
-    }
-
-    // Build VuraRequest
-    const thenRequest = this.buildRequest(request, url, match.params);
+    // Constraints see the client behind any trusted proxies (the host it asked for)
+    const client = resolveClient(request, url, connection, this.trustProxy);
+    const constrained = Object.create(request, {
+      ips: { value: client.ips },
+      hostname: { value: client.hostname },
+    }) as Request;
 
-    // Apply request decorations from root context
-    for (const [key, value] of this.rootContext.requestDecorations) {
-      if (!(key in thenRequest)) {
-        (thenRequest as Record<string, unknown>)[key] = typeof value === 'function' ? value() : value;
-      }
+    // Match route (HEAD falls back to the GET route)
+    const match = this.router.match(method, pathname, constrained)
+      ?? (method === 'HEAD' ? this.router.match('GET', pathname, constrained) : null);
+    if (!match) {
+      return this.handleUnmatched(method, url, request, client);
     }
 
-    // Build VuraReply
-    const reply = createReply();
+    // Build VuraRequest (constraint captures such as `subdomain` go in `request.captures`)
+    const thenRequest = this.buildRequest(request, url, match.params, match.captures, match.route, client);
+    const reply = this.buildReply(thenRequest, request, match.route);
 
+    let response: Response;
     try {
       // Run hook lifecycle
-      return await this.runLifecycle(thenRequest, reply, match.route);
+      response = await this.runLifecycle(thenRequest, reply, match.route);
     } catch (error) {
-      return this.handleError(error as Error, thenRequest, reply, match.route);
+      response = await this.handleError(error as Error, thenRequest, reply, match.route);
     }
+    response = await this.sendResponse(thenRequest, reply, match.route, response);
+    // Temporary uploads last until the response body is done with them
+    response = releaseUploads(thenRequest, response);
+
+    // HEAD served by a GET route: same status and headers, no body
+    if (method === 'HEAD' && match.route.method === 'GET') {
+      response.body?.cancel().catch(() => {});
+      return new Response(null, { status: response.status, headers: response.headers });
+    }
+    return response;
   }
 
   /**
    * Returns a fetch-compatible handler function.
    * Useful for: Bun.serve({ fetch: app.fetch }), Deno.serve(app.fetch)
    */
-  get fetch(): (request: Request) => Promise<Response> {
-    return this.handle.bind(this);
+  get fetch(): (request: Request, context?: unknown) => Promise<Response> {
+    // Runtimes pass their own second argument (Bun's server, Deno's info), which knows the client address
+    return (request, context) => this.handle(request, fetchConnection(request, context));
   }
 
   /** Get all registered routes (for build manifest) */
@@ -276,21 +499,112 @@ export class VuraApp {
 
   // ─── Internal ───
 
+  /**
+   * No route for this method. The request goes through the `onRequest`,
+   * `onSend` and `onResponse` hooks of the innermost scope whose prefix
+   * contains the path, so plugins registered there (CORS, security headers,
+   * rate limits) also apply. `routeOptions.url` is the scope's `/*`.
+   */
+  private async handleUnmatched(
+    method: RouteMethod,
+    url: URL,
+    request: Request,
+    client: ClientInfo,
+  ): Promise<Response> {
+    const scope = this.rootContext.scopeFor(url.pathname);
+    const route: InternalRoute = {
+      method,
+      url: `${scope.prefix}/*`,
+      handler: () => this.unmatchedResponse(method, url.pathname, request),
+      kind: 'serverless',
+      requestDecorations: scope.requestDecorations,
+      replyDecorations: scope.replyDecorations,
+      hooks: scope.hooks,
+    };
+    const thenRequest = this.buildRequest(request, url, {}, {}, route, client);
+    const reply = this.buildReply(thenRequest, request, route);
+
+    let response: Response;
+    try {
+      response = await this.runHooks(route.hooks.onRequest, thenRequest, reply)
+        ?? this.unmatchedResponse(method, url.pathname, request);
+    } catch (error) {
+      response = await this.handleError(error as Error, thenRequest, reply, route);
+    }
+    return this.sendResponse(thenRequest, reply, route, response);
+  }
+
+  /**
+   * 404 if the path is unknown, otherwise a default OPTIONS reply or 405,
+   * both listing the allowed methods. Register an OPTIONS route (e.g. on
+   * `/*path`) to override; a path served only by OPTIONS routes is still a
+   * 404 for other methods.
+   */
+  private unmatchedResponse(method: RouteMethod, pathname: string, request: Request): Response {
+    const allowed = this.router.allowedMethods(pathname, request);
+    if (allowed.every((m) => m === 'OPTIONS')) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    const allow = [...allowed, ...(allowed.includes('OPTIONS') ? [] : ['OPTIONS'])].join(', ');
+    if (method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: { allow } });
+    }
+    return new Response('Method Not Allowed', { status: 405, headers: { allow } });
+  }
+
+  /** Apply the route context's request decorations and build its VuraReply */
+  private buildReply(thenRequest: VuraRequest, request: Request, route: InternalRoute): VuraReply {
+    applyDecorations(thenRequest, route.requestDecorations);
+
+    // Serializes through the route's response schemas
+    const reply = createReply({
+      serializers: route.serializers,
+      validateResponses: this.options.validateResponses,
+      cookieSecret: this.options.cookieSecret,
+      request,
+    });
+    applyDecorations(reply, route.replyDecorations);
+    return reply;
+  }
+
   private buildRequest(
     request: Request,
     url: URL,
     params: Record<string, string>,
+    captures: Record<string, string>,
+    route: InternalRoute,
+    client: ClientInfo,
   ): VuraRequest {
     const query: Record<string, string> = {};
     for (const [key, value] of url.searchParams) {
       query[key] = value;
     }
 
+    const cookies = parseCookies(request.headers.get('cookie'));
+    const secret = this.options.cookieSecret;
+
     // Create a VuraRequest by extending the original request
     const thenRequest = Object.create(request, {
       params: { value: params, writable: true },
       query: { value: query, writable: true },
+      captures: { value: captures, writable: true },
       parsedBody: { value: undefined, writable: true },
+      routeOptions: { value: Object.freeze({ method: route.method, url: route.url, config: route.config ?? {} }) },
+      cookies: { value: cookies, writable: true },
+      ip: { value: client.ip, writable: true },
+      ips: { value: client.ips, writable: true },
+      protocol: { value: client.protocol, writable: true },
+      hostname: { value: client.hostname, writable: true },
+      signedCookie: {
+        value: async (name: string) => (name in cookies ? unsignCookie(cookies[name]!, secret) : null),
+      },
+      encryptedCookie: {
+        value: async (name: string) => (name in cookies ? decryptCookie(cookies[name]!, secret) : null),
+      },
+      accepts: { value: createNegotiator(request.headers.get('accept'), 'type') },
+      acceptsLanguages: { value: createNegotiator(request.headers.get('accept-language'), 'language') },
+      acceptsEncodings: { value: createNegotiator(request.headers.get('accept-encoding'), 'encoding') },
     }) as VuraRequest;
 
     return thenRequest;
@@ -301,24 +615,32 @@ export class VuraApp {
     reply: VuraReply,
     route: InternalRoute,
   ): Promise<Response> {
-    // 1. onRequest hooks (route-specific inherit encapsulation hooks)
+    // 1. onRequest hooks (every hook list is the route's context hooks + its own)
     let earlyResponse = await this.runHooks(route.hooks.onRequest, request, reply);
     if (earlyResponse) return earlyResponse;
 
     // 2. preParsing hooks
-    earlyResponse = await this.runHooks(this.rootContext.hooks.preParsing, request, reply);
+    earlyResponse = await this.runHooks(route.hooks.preParsing, request, reply);
     if (earlyResponse) return earlyResponse;
 
-    // 3. Body parsing
-    await this.parseBody(request);
+    // 3. Body parsing (413 past the body limit, 400 when the parser fails)
+    await parseBody(request, {
+      parsers: route.parsers ?? this.rootContext.parsers,
+      routeLimit: route.bodyLimit,
+      appLimit: this.options.bodyLimit ?? DEFAULT_BODY_LIMIT,
+      rawBody: route.rawBody,
+    });
 
     // 4. preValidation hooks
-    earlyResponse = await this.runHooks(this.rootContext.hooks.preValidation, request, reply);
+    earlyResponse = await this.runHooks(route.hooks.preValidation, request, reply);
     if (earlyResponse) return earlyResponse;
 
-    // 5. Schema validation (TODO: integrate with @vura/schema)
+    // 5. Schema validation (params → querystring → body)
+    if (route.validators) {
+      validateRequest(request, route.validators);
+    }
 
-    // 6. preHandler hooks (route-specific inherit encapsulation hooks)
+    // 6. preHandler hooks
     earlyResponse = await this.runHooks(route.hooks.preHandler, request, reply);
     if (earlyResponse) return earlyResponse;
 
@@ -328,6 +650,9 @@ export class VuraApp {
 
     if (handlerResult instanceof Response) {
       response = handlerResult;
+    } else if (handlerResult !== undefined) {
+      // Plain values are serialized through the reply (status, headers, schema)
+      response = reply.send(handlerResult);
     } else if (reply.sent) {
       // Reply was used to build a response — shouldn't happen with current API
       // but reply.send() etc. return Response, so handler should return it
@@ -337,14 +662,30 @@ export class VuraApp {
       response = new Response(null, { status: 204 });
     }
 
-    // 8. preSerialization hooks
-    await this.runHooks(route.hooks.preSerialization, request, reply);
+    // 8. preSerialization hooks (may replace the serialized value)
+    return this.runPreSerialization(route.hooks.preSerialization, request, reply, response);
+  }
 
-    // 9. onSend hooks
-    await this.runHooks(this.rootContext.hooks.onSend, request, reply);
+  /**
+   * Steps 9–10, for every reply: the handler's, one returned early by a hook,
+   * an error reply or an unmatched request's. When an onSend hook throws,
+   * the error reply is sent without passing through onSend again.
+   */
+  private async sendResponse(
+    request: VuraRequest,
+    reply: VuraReply,
+    route: InternalRoute,
+    response: Response,
+  ): Promise<Response> {
+    try {
+      // 9. onSend hooks (may replace the Response)
+      response = await this.runOnSend(route.hooks.onSend, request, reply, response);
+    } catch (error) {
+      response = await this.handleError(error as Error, request, reply, route);
+    }
 
     // 10. onResponse hooks (fire-and-forget, after response)
-    this.runHooksFireAndForget(this.rootContext.hooks.onResponse, request, reply);
+    this.runHooksFireAndForget(route.hooks.onResponse, request, reply);
 
     return response;
   }
@@ -366,6 +707,47 @@ export class VuraApp {
     return null;
   }
 
+  /**
+   * Only runs for responses built from a value by `reply.json()`/`send()`.
+   * A returned value is serialized in place of the payload; a Response wins outright.
+   */
+  private async runPreSerialization(
+    hooks: PreSerializationHandler[],
+    request: VuraRequest,
+    reply: VuraReply,
+    response: Response,
+  ): Promise<Response> {
+    const serialized = hooks.length > 0 ? serializedPayload(response) : undefined;
+    if (!serialized) return response;
+
+    let payload = serialized.data;
+    let replaced = false;
+    for (const hook of hooks) {
+      const result = await hook(request, reply, payload);
+      if (result instanceof Response) return result;
+      if (result !== undefined) {
+        payload = result;
+        replaced = true;
+      }
+    }
+    return replaced ? reply.json(payload) : response;
+  }
+
+  /** Each hook sees the previous hook's Response; returned bodies keep its status and headers */
+  private async runOnSend(
+    hooks: OnSendHandler[],
+    request: VuraRequest,
+    reply: VuraReply,
+    response: Response,
+  ): Promise<Response> {
+    for (const hook of hooks) {
+      const result = await hook(request, reply, response);
+      if (result === undefined || result === response) continue;
+      response = result instanceof Response ? result : replaceBody(response, result);
+    }
+    return response;
+  }
+
   private runHooksFireAndForget(
     hooks: HookHandler[],
     request: VuraRequest,
@@ -380,26 +762,6 @@ export class VuraApp {
     }
   }
 
-  private async parseBody(request: VuraRequest): Promise<void> {
-    const contentType = request.headers.get('content-type') ?? '';
-
-    if (request.method === 'GET' || request.method === 'HEAD') {
-      return;
-    }
-
-    try {
-      if (contentType.includes('application/json')) {
-        request.parsedBody = await request.json();
-      } else if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
-        request.parsedBody = await request.formData();
-      } else if (contentType.includes('text/')) {
-        request.parsedBody = await request.text();
-      }
-    } catch {
-      // Body parsing failed — leave as undefined
-    }
-  }
-
   private async handleError(
     error: Error,
     request: VuraRequest,
@@ -407,7 +769,7 @@ export class VuraApp {
     route: InternalRoute,
   ): Promise<Response> {
     // Run onError hooks
-    for (const handler of this.rootContext.hooks.onError) {
+    for (const handler of route.hooks.onError) {
       try {
         const result = await handler(error, request, reply);
         if (result instanceof Response) {
@@ -424,6 +786,9 @@ export class VuraApp {
       JSON.stringify({
         error: error.message || 'Internal Server Error',
         statusCode: status,
+        ...(error instanceof ValidationError || error instanceof ResponseValidationError
+          ? { issues: error.issues }
+          : {}),
       }),
       {
         status,
@@ -0,0 +1,228 @@
+// @vura/server — Request body parsing: content-type parsers, size limits and raw bodies
+
+import type { VuraRequest } from './types.js';
+
+// ─── Types ───
+
+/** How a parser receives the body: decoded text, bytes, or the (size-limited) stream */
+export type ParseAs = 'string' | 'buffer' | 'stream';
+
+export type ParsedAs<P extends ParseAs> = P extends 'string'
+  ? string
+  : P extends 'buffer'
+    ? Uint8Array
+    : ReadableStream<Uint8Array>;
+
+/** Turns a body into `request.parsedBody`; throw to reject it with a 400 */
+export type ContentTypeParser<T = string> = (body: T, request: VuraRequest) => unknown;
+
+export interface ContentTypeParserOptions<P extends ParseAs = ParseAs> {
+  /** Default `string` */
+  parseAs?: P;
+  /** Bytes accepted for this type, unless the route sets its own `bodyLimit` */
+  bodyLimit?: number;
+}
+
+/** A media type (`application/json`), a RegExp tested against it, or `*` for any */
+export type ContentTypeMatcher = string | RegExp | Array<string | RegExp>;
+
+/** Default for `VuraAppOptions.bodyLimit`: 1 MiB */
+export const DEFAULT_BODY_LIMIT = 1_048_576;
+
+// ─── Errors ───
+
+export class BodyParseError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'INVALID_BODY';
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'BodyParseError';
+  }
+}
+
+export class BodyLimitError extends Error {
+  readonly statusCode = 413;
+  readonly code = 'PAYLOAD_TOO_LARGE';
+
+  constructor(readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'BodyLimitError';
+  }
+}
+
+// ─── Registry ───
+
+interface ParserEntry {
+  parseAs: ParseAs;
+  bodyLimit?: number;
+  /** Takes whichever body `parseAs` names */
+  parser: ContentTypeParser<never>;
+}
+
+/**
+ * Parsers by media type for one encapsulation context. Exact types win over
+ * patterns; patterns added later are tried first, so they override earlier
+ * ones; `*` catches everything else.
+ */
+export class ContentTypeParsers {
+  private exact = new Map<string, ParserEntry>();
+  private patterns: Array<{ pattern: RegExp; entry: ParserEntry }> = [];
+  private fallback: ParserEntry | undefined;
+
+  add(type: ContentTypeMatcher, options: ContentTypeParserOptions, parser: ContentTypeParser<never>): void {
+    const entry: ParserEntry = { parseAs: options.parseAs ?? 'string', bodyLimit: options.bodyLimit, parser };
+    for (const matcher of Array.isArray(type) ? type : [type]) {
+      if (matcher instanceof RegExp) {
+        this.patterns.unshift({ pattern: matcher, entry });
+      } else if (matcher === '*') {
+        this.fallback = entry;
+      } else {
+        this.exact.set(matcher.toLowerCase(), entry);
+      }
+    }
+  }
+
+  find(mediaType: string): ParserEntry | undefined {
+    return this.exact.get(mediaType)
+      ?? this.patterns.find(({ pattern }) => pattern.test(mediaType))?.entry
+      ?? this.fallback;
+  }
+
+  /** A copy for a child context, which may add or replace parsers on its own */
+  clone(): ContentTypeParsers {
+    const copy = new ContentTypeParsers();
+    copy.exact = new Map(this.exact);
+    copy.patterns = [...this.patterns];
+    copy.fallback = this.fallback;
+    return copy;
+  }
+
+  /** JSON, URL-encoded forms (as FormData) and text; VuraApp adds multipart */
+  static withDefaults(): ContentTypeParsers {
+    const parsers = new ContentTypeParsers();
+    parsers.add(['application/json', /\+json$/], {}, parseJson);
+    parsers.add('application/x-www-form-urlencoded', {}, (body: string) => {
+      const form = new FormData();
+      for (const [key, value] of new URLSearchParams(body)) {
+        form.append(key, value);
+      }
+      return form;
+    });
+    parsers.add(/^text\//, {}, (body: string) => body);
+    return parsers;
+  }
+}
+
+function parseJson(body: string): unknown {
+  // A declared JSON body that is empty (e.g. a bare DELETE) parses to undefined
+  if (body.trim() === '') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new BodyParseError('Invalid JSON body', { cause: error });
+  }
+}
+
+// ─── Parsing ───
+
+export interface BodyOptions {
+  parsers: ContentTypeParsers;
+  /** The route's limit, else the parser's, else this app-wide one */
+  routeLimit?: number;
+  appLimit: number;
+  /** Keep the bytes as `request.rawBody` */
+  rawBody?: boolean;
+}
+
+/**
+ * Parse the body into `request.parsedBody` with the parser for its media
+ * type. Bodies without a parser are left unread, unless `rawBody` is set.
+ * Throws a BodyLimitError (413) past the limit and a BodyParseError (400)
+ * when the parser fails.
+ */
+export async function parseBody(request: VuraRequest, options: BodyOptions): Promise<void> {
+  if (request.method === 'GET' || request.method === 'HEAD' || request.body === null) return;
+
+  const contentType = request.headers.get('content-type');
+  const mediaType = contentType?.split(';')[0]!.trim().toLowerCase();
+  const entry = mediaType ? options.parsers.find(mediaType) : undefined;
+  if (!entry && !options.rawBody) return;
+
+  const limit = options.routeLimit ?? entry?.bodyLimit ?? options.appLimit;
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > limit) {
+    throw new BodyLimitError(limit);
+  }
+
+  let bytes: Uint8Array | undefined;
+  if (options.rawBody || entry?.parseAs !== 'stream') {
+    // Buffering needs a bound even where a streaming parser has none (multipart)
+    const bufferLimit = Number.isFinite(limit) ? limit : options.appLimit;
+    if (declared > bufferLimit) {
+      throw new BodyLimitError(bufferLimit);
+    }
+    bytes = await readBody(request.body, bufferLimit);
+    if (options.rawBody) request.rawBody = bytes;
+  }
+  if (!entry) return;
+
+  let body: string | Uint8Array | ReadableStream<Uint8Array>;
+  if (entry.parseAs === 'string') {
+    body = new TextDecoder().decode(bytes);
+  } else if (entry.parseAs === 'buffer') {
+    body = bytes!;
+  } else {
+    body = bytes ? new Blob([bytes as Uint8Array<ArrayBuffer>]).stream() : limitStream(request.body, limit);
+  }
+
+  try {
+    request.parsedBody = await entry.parser(body as never, request);
+  } catch (error) {
+    // Errors that carry a status (413 from a stream, a parser's own) pass through
+    if (error instanceof Error && 'statusCode' in error) throw error;
+    throw new BodyParseError('Invalid request body', { cause: error });
+  }
+}
+
+/** Buffer a body, giving up as soon as it grows past `limit` */
+async function readBody(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw new BodyLimitError(limit);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/** Pass chunks through until more than `limit` bytes have gone by, then error */
+function limitStream(stream: ReadableStream<Uint8Array>, limit: number): ReadableStream<Uint8Array> {
+  let size = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > limit) {
+          controller.error(new BodyLimitError(limit));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+}
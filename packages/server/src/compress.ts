@@ -0,0 +1,112 @@
+// @vura/server — Response compression plugin (CompressionStream)
+
+import { definePlugin } from './plugin.js';
+import { negotiate, appendVary } from './negotiation.js';
+import type { VuraRequest } from './types.js';
+
+export type CompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface CompressOptions extends Record<string, unknown> {
+  /** Encodings to offer, in server preference order (default br, gzip, deflate) */
+  encodings?: CompressionEncoding[];
+  /** Smallest Content-Length worth compressing, in bytes (default 1024). Streams without a length always qualify. */
+  threshold?: number;
+  /** Content types to compress — patterns are tested against the type without parameters */
+  types?: Array<string | RegExp> | ((contentType: string) => boolean);
+}
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'gzip', 'deflate'];
+
+// Event streams are left alone: CompressionStream buffers, which would hold back events
+const DEFAULT_TYPES: RegExp[] = [
+  /^text\/(?!event-stream)/,
+  /^application\/(json|javascript|xml|x-ndjson|wasm|manifest\+json)$/,
+  /\+(json|xml)$/,
+  /^image\/svg\+xml$/,
+];
+
+/** Statuses whose bodies must stay byte-for-byte (no body, or a byte range of the identity encoding) */
+const SKIP_STATUSES = new Set([204, 206, 304]);
+
+// ─── Runtime Support ───
+
+const supported = new Map<CompressionEncoding, boolean>();
+
+/** Not every runtime's CompressionStream knows every format (Node 20 lacks `br`) */
+function isSupported(encoding: CompressionEncoding): boolean {
+  let result = supported.get(encoding);
+  if (result === undefined) {
+    try {
+      new CompressionStream(encoding as CompressionFormat);
+      result = true;
+    } catch {
+      result = false;
+    }
+    supported.set(encoding, result);
+  }
+  return result;
+}
+
+// ─── Plugin ───
+
+/**
+ * Compress route responses with the best encoding the client accepts. Runs
+ * as an `onSend` hook in the registering context, so it applies to routes
+ * declared there and in child contexts.
+ */
+export const compress = definePlugin<CompressOptions>(
+  { name: '@vura/compress', encapsulate: false },
+  (app, options) => {
+    const threshold = options.threshold ?? 1024;
+    const encodings = (options.encodings ?? DEFAULT_ENCODINGS).filter(isSupported);
+    const compressible = typeMatcher(options.types);
+
+    app.addHook('onSend', (request, reply, response) => {
+      return compressResponse(request, response, { threshold, encodings, compressible });
+    });
+  },
+);
+
+interface CompressSettings {
+  threshold: number;
+  encodings: CompressionEncoding[];
+  compressible: (contentType: string) => boolean;
+}
+
+function compressResponse(request: VuraRequest, response: Response, settings: CompressSettings): Response | undefined {
+  const headers = response.headers;
+  if (!response.body || SKIP_STATUSES.has(response.status) || request.method === 'HEAD') return;
+  if (headers.has('content-encoding') || headers.has('content-range')) return;
+  if (/(?:^|,)\s*no-transform\s*(?:,|$)/i.test(headers.get('cache-control') ?? '')) return;
+
+  const contentType = (headers.get('content-type') ?? '').split(';')[0]!.trim().toLowerCase();
+  if (!contentType || !settings.compressible(contentType)) return;
+
+  // The representation depends on Accept-Encoding from here on, compressed or not
+  const varied = new Headers(headers);
+  appendVary(varied, 'Accept-Encoding');
+
+  const length = headers.get('content-length');
+  const encoding = negotiate(request.headers.get('accept-encoding'), settings.encodings, 'encoding')[0];
+  if ((length !== null && Number(length) < settings.threshold) || !encoding) {
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers: varied });
+  }
+
+  varied.set('content-encoding', encoding);
+  varied.delete('content-length');
+  // A strong validator names exact bytes; the compressed bytes differ
+  const etag = varied.get('etag');
+  if (etag && !etag.startsWith('W/')) {
+    varied.set('etag', `W/${etag}`);
+  }
+
+  const compressed = response.body.pipeThrough(new CompressionStream(encoding as CompressionFormat));
+  return new Response(compressed, { status: response.status, statusText: response.statusText, headers: varied });
+}
+
+function typeMatcher(types: CompressOptions['types']): (contentType: string) => boolean {
+  if (typeof types === 'function') return types;
+  const patterns = types ?? DEFAULT_TYPES;
+  return (contentType) =>
+    patterns.some((pattern) => (typeof pattern === 'string' ? pattern.toLowerCase() === contentType : pattern.test(contentType)));
+}
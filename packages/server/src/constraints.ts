@@ -0,0 +1,186 @@
+// @vura/server — Route constraint strategies (host, Accept-Version)
+
+import type { ConstraintStrategy, VuraRequest } from './types.js';
+
+// ─── Host ───
+
+/**
+ * Match the Host header against an exact host (`api.example.com`), a
+ * wildcard subdomain (`*.example.com`, captured as `subdomain`) or a RegExp
+ * (named groups are captured). The port is ignored unless the route names one.
+ * Behind a trusted proxy, the forwarded host (`request.hostname`) is matched
+ * instead, without a port, since proxies don't reliably forward one.
+ */
+export const hostConstraint: ConstraintStrategy<string | RegExp> = {
+  name: 'host',
+
+  deriveConstraint(request) {
+    const { ips, hostname } = request as Partial<VuraRequest>;
+    if (ips?.length && hostname) {
+      return (hostname.includes(':') ? `[${hostname}]` : hostname).toLowerCase();
+    }
+    const host = request.headers.get('host') ?? new URL(request.url).host;
+    return host ? host.toLowerCase() : undefined;
+  },
+
+  match(value, host) {
+    if (host === undefined) return false;
+
+    if (value instanceof RegExp) {
+      const match = value.exec(stripPort(host));
+      return match ? { ...match.groups } : false;
+    }
+
+    const expected = value.toLowerCase();
+    const actual = expected.includes(':') ? host : stripPort(host);
+    if (expected.startsWith('*.')) {
+      const suffix = expected.slice(1);
+      if (actual.length > suffix.length && actual.endsWith(suffix)) {
+        return { subdomain: actual.slice(0, -suffix.length) };
+      }
+      return false;
+    }
+    return actual === expected;
+  },
+
+  // Exact hosts first, then wildcards, then patterns
+  compare(a, b) {
+    return hostRank(a) - hostRank(b);
+  },
+
+  validate(value) {
+    if (typeof value !== 'string' && !(value instanceof RegExp)) {
+      throw new Error('Host constraint must be a string or RegExp');
+    }
+  },
+};
+
+function hostRank(value: string | RegExp): number {
+  if (value instanceof RegExp) return 2;
+  return value.startsWith('*.') ? 1 : 0;
+}
+
+function stripPort(host: string): string {
+  // Keep IPv6 literals intact: [::1]:3000 → [::1]
+  const end = host.startsWith('[') ? host.indexOf(']') + 1 : host.indexOf(':');
+  return end > 0 ? host.slice(0, end) : host;
+}
+
+// ─── Version ───
+
+/**
+ * Route `version` is an exact semver (`1.2.0`); the `Accept-Version` request
+ * header is a range (`1.x`, `^1.1.0`, `~1.2`, `>=1.0.0 <2`, `1 || 2`). The
+ * highest satisfying version wins. Requests that send the header never fall
+ * back to unversioned routes.
+ */
+export const versionConstraint: ConstraintStrategy<string> = {
+  name: 'version',
+  mustMatchWhenDerived: true,
+
+  deriveConstraint(request) {
+    return request.headers.get('accept-version') ?? undefined;
+  },
+
+  match(value, range) {
+    return range !== undefined && satisfies(value, range);
+  },
+
+  // Highest version first
+  compare(a, b) {
+    return compareVersions(parseVersion(b)!, parseVersion(a)!);
+  },
+
+  validate(value) {
+    if (typeof value !== 'string' || !parseVersion(value)) {
+      throw new Error(`Version constraint must be a semver version, got "${String(value)}"`);
+    }
+  },
+};
+
+// ─── Semver ───
+
+type Version = [number, number, number];
+type PartialVersion = [number, number | null, number | null];
+
+const VERSION = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/;
+const COMPARATOR = /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/;
+
+function parseVersion(value: string): Version | null {
+  const match = VERSION.exec(value.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/** Does `version` satisfy the semver `range`? */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return range.split('||').some((set) =>
+    set
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((comparator) => testComparator(parsed, comparator)),
+  );
+}
+
+function testComparator(version: Version, comparator: string): boolean {
+  if (comparator === '*' || comparator.toLowerCase() === 'x') return true;
+
+  const match = COMPARATOR.exec(comparator);
+  if (!match) return false;
+
+  const op = match[1] ?? '=';
+  const parts = [match[2], match[3], match[4]].map((p) =>
+    p === undefined || /^[xX*]$/.test(p) ? null : Number(p),
+  );
+  if (parts[0] === null) return true;
+  const partial: PartialVersion = [parts[0]!, parts[1] ?? null, parts[1] === null ? null : parts[2] ?? null];
+  const floor: Version = [partial[0], partial[1] ?? 0, partial[2] ?? 0];
+  const cmp = compareVersions(version, floor);
+
+  switch (op) {
+    case '=':
+      return version[0] === partial[0]
+        && (partial[1] === null || version[1] === partial[1])
+        && (partial[2] === null || version[2] === partial[2]);
+    case '>=':
+      return cmp >= 0;
+    case '<':
+      return cmp < 0;
+    case '>':
+      return isComplete(partial) ? cmp > 0 : compareVersions(version, bump(partial)) >= 0;
+    case '<=':
+      return isComplete(partial) ? cmp <= 0 : compareVersions(version, bump(partial)) < 0;
+    case '~':
+      return cmp >= 0 && compareVersions(version, partial[1] === null
+        ? [partial[0] + 1, 0, 0]
+        : [partial[0], partial[1] + 1, 0]) < 0;
+    case '^': {
+      const [major, minor, patch] = partial;
+      const ceiling: Version = major > 0 || minor === null
+        ? [major + 1, 0, 0]
+        : minor > 0 || patch === null
+          ? [0, minor + 1, 0]
+          : [0, 0, patch + 1];
+      return cmp >= 0 && compareVersions(version, ceiling) < 0;
+    }
+    default:
+      return false;
+  }
+}
+
+function isComplete(partial: PartialVersion): boolean {
+  return partial[1] !== null && partial[2] !== null;
+}
+
+/** Smallest version above an x-range: 1 → 2.0.0, 1.2 → 1.3.0 */
+function bump(partial: PartialVersion): Version {
+  return partial[1] === null ? [partial[0] + 1, 0, 0] : [partial[0], partial[1] + 1, 0];
+}
@@ -0,0 +1,250 @@
+// @vura/server — Cookie parsing, serialization, signing and encryption (WebCrypto)
+
+// ─── Types ───
+
+export interface CookieOptions {
+  domain?: string;
+  /** Defaults to `/` */
+  path?: string;
+  expires?: Date;
+  /** Lifetime in seconds */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none' | boolean;
+  /** CHIPS partitioned cookie (requires `secure`) */
+  partitioned?: boolean;
+  priority?: 'low' | 'medium' | 'high';
+}
+
+/** One secret, or several to rotate keys — the first signs/encrypts, all verify/decrypt */
+export type CookieSecret = string | string[];
+
+// RFC 6265 §4.1.1: cookie-name is an RFC 7230 token
+const COOKIE_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+// Domain and Path attribute values: no control characters or `;`
+const ATTRIBUTE_VALUE = /^[ -:<-~]*$/;
+
+// ─── Parsing ───
+
+/** Parse a `Cookie` header. The first occurrence of a name wins; values are URL-decoded. */
+export function parseCookies(header: string | null): Record<string, string> {
+  // No prototype, so cookies named `constructor` or `toString` are plain entries
+  const cookies: Record<string, string> = Object.create(null);
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq === -1) continue;
+
+    const name = pair.slice(0, eq).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.slice(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+    cookies[name] = safeDecode(value);
+  }
+  return cookies;
+}
+
+function safeDecode(value: string): string {
+  if (!value.includes('%')) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// ─── Serialization ───
+
+/**
+ * Copy a Response's headers onto a Node `ServerResponse` (or anything with
+ * `setHeader`). `setHeader` replaces, so every `Set-Cookie` goes in one call.
+ */
+export function writeNodeHeaders(
+  res: { setHeader(name: string, value: string | string[]): unknown },
+  headers: Headers,
+): void {
+  for (const [key, value] of headers) {
+    if (key !== 'set-cookie') res.setHeader(key, value);
+  }
+  const cookies = headers.getSetCookie();
+  if (cookies.length > 0) res.setHeader('set-cookie', cookies);
+}
+
+/** Build a `Set-Cookie` header value. Throws on names or attributes that would corrupt the header. */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!COOKIE_NAME.test(name)) {
+    throw new Error(`Invalid cookie name "${name}"`);
+  }
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+
+  if (options.maxAge !== undefined) {
+    if (!Number.isFinite(options.maxAge)) {
+      throw new Error(`Invalid maxAge for cookie "${name}"`);
+    }
+    cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  }
+  if (options.domain) {
+    cookie += `; Domain=${checkAttribute(name, 'domain', options.domain)}`;
+  }
+  cookie += `; Path=${checkAttribute(name, 'path', options.path ?? '/')}`;
+  if (options.expires) {
+    cookie += `; Expires=${options.expires.toUTCString()}`;
+  }
+  if (options.httpOnly) {
+    cookie += '; HttpOnly';
+  }
+  if (options.secure) {
+    cookie += '; Secure';
+  }
+  if (options.partitioned) {
+    cookie += '; Partitioned';
+  }
+  if (options.priority) {
+    cookie += `; Priority=${capitalize(options.priority)}`;
+  }
+  if (options.sameSite) {
+    const sameSite = options.sameSite === true ? 'strict' : options.sameSite;
+    cookie += `; SameSite=${capitalize(sameSite)}`;
+  }
+
+  return cookie;
+}
+
+function checkAttribute(name: string, attribute: string, value: string): string {
+  if (!ATTRIBUTE_VALUE.test(value)) {
+    throw new Error(`Invalid ${attribute} for cookie "${name}"`);
+  }
+  return value;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// ─── Signing (HMAC-SHA256) ───
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const hmacKeys = new Map<string, Promise<CryptoKey>>();
+const aesKeys = new Map<string, Promise<CryptoKey>>();
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  let key = hmacKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+      'verify',
+    ]);
+    hmacKeys.set(secret, key);
+  }
+  return key;
+}
+
+function aesKey(secret: string): Promise<CryptoKey> {
+  let key = aesKeys.get(secret);
+  if (!key) {
+    // Stretch any secret to a 256-bit key
+    key = crypto.subtle
+      .digest('SHA-256', encoder.encode(secret))
+      .then((raw) => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']));
+    aesKeys.set(secret, key);
+  }
+  return key;
+}
+
+function toSecrets(secret: CookieSecret | undefined): string[] {
+  const secrets = secret === undefined ? [] : Array.isArray(secret) ? secret : [secret];
+  if (secrets.length === 0) {
+    throw new Error('Signed and encrypted cookies require the `cookieSecret` app option');
+  }
+  return secrets;
+}
+
+/** `value.signature` — the signature is a base64url HMAC of the value */
+export async function signCookie(value: string, secret: CookieSecret | undefined): Promise<string> {
+  const key = await hmacKey(toSecrets(secret)[0]!);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The original value if any secret verifies the signature, else null */
+export async function unsignCookie(signed: string, secret: CookieSecret | undefined): Promise<string | null> {
+  const dot = signed.lastIndexOf('.');
+  if (dot === -1) return null;
+
+  const value = signed.slice(0, dot);
+  const signature = fromBase64Url(signed.slice(dot + 1));
+  if (!signature) return null;
+
+  for (const candidate of toSecrets(secret)) {
+    const key = await hmacKey(candidate);
+    if (await crypto.subtle.verify('HMAC', key, signature, encoder.encode(value))) {
+      return value;
+    }
+  }
+  return null;
+}
+
+// ─── Encryption (AES-256-GCM) ───
+
+/** base64url(iv ‖ ciphertext) — authenticated, so tampering fails decryption */
+export async function encryptCookie(value: string, secret: CookieSecret | undefined): Promise<string> {
+  const key = await aesKey(toSecrets(secret)[0]!);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(value));
+
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64Url(sealed);
+}
+
+/** The plaintext if any secret decrypts the value, else null */
+export async function decryptCookie(sealed: string, secret: CookieSecret | undefined): Promise<string | null> {
+  const bytes = fromBase64Url(sealed);
+  if (!bytes || bytes.length <= 12) return null;
+
+  const iv = bytes.subarray(0, 12);
+  const ciphertext = bytes.subarray(12);
+  for (const candidate of toSecrets(secret)) {
+    try {
+      const key = await aesKey(candidate);
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+      return decoder.decode(plaintext);
+    } catch {
+      // Wrong key or tampered value — try the next secret
+    }
+  }
+  return null;
+}
+
+// ─── Base64url ───
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[\w-]*$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,107 @@
+// @vura/server — CORS plugin with preflight handling
+
+import { definePlugin } from './plugin.js';
+import { appendVary } from './negotiation.js';
+import type { VuraRequest } from './types.js';
+
+/** `true` or `'*'` allows any origin; a function decides per request */
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | Array<string | RegExp>
+  | ((origin: string, request: VuraRequest) => boolean | Promise<boolean>);
+
+export interface CorsOptions extends Record<string, unknown> {
+  /** Allowed origins (default `'*'`) */
+  origin?: CorsOrigin;
+  /** Methods allowed in preflights (default GET, HEAD, PUT, PATCH, POST, DELETE) */
+  methods?: string[];
+  /** Request headers allowed in preflights (default: echo `Access-Control-Request-Headers`) */
+  allowedHeaders?: string[];
+  /** Response headers readable by the browser */
+  exposedHeaders?: string[];
+  /** Send `Access-Control-Allow-Credentials: true`; a wildcard origin is then echoed back */
+  credentials?: boolean;
+  /** How long a preflight may be cached, in seconds */
+  maxAge?: number;
+}
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+
+// ─── Plugin ───
+
+/**
+ * Answer preflights and add CORS headers to route responses in the
+ * registering context. Preflights are answered in `onRequest`, which also
+ * runs for unmatched paths under the context's prefix, so paths without an
+ * OPTIONS route are covered without claiming one.
+ */
+export const cors = definePlugin<CorsOptions>(
+  { name: '@vura/cors', encapsulate: false },
+  (app, options) => {
+    const isAllowed = originMatcher(options.origin ?? '*');
+    const wildcard = (options.origin ?? '*') === '*' || options.origin === true;
+    const credentials = options.credentials === true;
+
+    /** The Allow-Origin value for this request, or null when the origin is refused */
+    const allowOrigin = async (request: VuraRequest): Promise<string | null> => {
+      const origin = request.headers.get('origin');
+      if (origin === null) return null;
+      if (wildcard && !credentials) return '*';
+      return (await isAllowed(origin, request)) ? origin : null;
+    };
+
+    app.addHook('onRequest', async (request) => {
+      if (request.method !== 'OPTIONS' || !request.headers.has('access-control-request-method')) return;
+
+      const headers = new Headers({ 'content-length': '0' });
+      if (!wildcard || credentials) appendVary(headers, 'Origin');
+      const origin = await allowOrigin(request);
+      if (origin !== null) {
+        headers.set('access-control-allow-origin', origin);
+        if (credentials) headers.set('access-control-allow-credentials', 'true');
+        headers.set('access-control-allow-methods', (options.methods ?? DEFAULT_METHODS).join(', '));
+
+        const requested = request.headers.get('access-control-request-headers');
+        if (options.allowedHeaders) {
+          headers.set('access-control-allow-headers', options.allowedHeaders.join(', '));
+        } else if (requested) {
+          headers.set('access-control-allow-headers', requested);
+          appendVary(headers, 'Access-Control-Request-Headers');
+        }
+        if (options.maxAge !== undefined) {
+          headers.set('access-control-max-age', String(Math.floor(options.maxAge)));
+        }
+      }
+      return new Response(null, { status: 204, headers });
+    });
+
+    app.addHook('onSend', async (request, reply, response) => {
+      const origin = await allowOrigin(request);
+      // The response differs per origin unless every origin gets `*`
+      const varies = !wildcard || credentials;
+      if (origin === null && !varies) return;
+
+      const headers = new Headers(response.headers);
+      if (varies) appendVary(headers, 'Origin');
+      if (origin !== null) {
+        headers.set('access-control-allow-origin', origin);
+        if (credentials) headers.set('access-control-allow-credentials', 'true');
+        if (options.exposedHeaders?.length) {
+          headers.set('access-control-expose-headers', options.exposedHeaders.join(', '));
+        }
+      }
+      return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    });
+  },
+);
+
+function originMatcher(origin: CorsOrigin): (origin: string, request: VuraRequest) => boolean | Promise<boolean> {
+  if (typeof origin === 'function') return origin;
+  if (typeof origin === 'boolean') return () => origin;
+  if (origin === '*') return () => true;
+
+  const patterns = Array.isArray(origin) ? origin : [origin];
+  return (value) => patterns.some((pattern) => (typeof pattern === 'string' ? pattern === value : pattern.test(value)));
+}
@@ -0,0 +1,273 @@
+// @vura/server — CSRF protection: origin checks plus synchronizer or double-submit tokens
+
+import { definePlugin } from './plugin.js';
+import { parseCookies, serializeCookie, signCookie, unsignCookie } from './cookie.js';
+import type { CookieOptions, CookieSecret } from './cookie.js';
+import type { VuraRequest } from './types.js';
+
+// ─── Types ───
+
+/**
+ * `synchronizer` keeps the token in the session (needs the `session` plugin).
+ * `double-submit` keeps a token signed for the client in a cookie that
+ * requests must echo.
+ */
+export type CsrfPattern = 'synchronizer' | 'double-submit';
+
+export interface CsrfOptions extends Record<string, unknown> {
+  /** Default `synchronizer` */
+  pattern?: CsrfPattern;
+  /** Signs the double-submit cookie; required for that pattern */
+  secret?: CookieSecret;
+  /**
+   * The client a double-submit token is bound to, such as the signed-in user's
+   * id. Default: the server-side session id. Tokens can't be issued or
+   * accepted for requests without one.
+   */
+  identify?: (request: VuraRequest) => string | undefined;
+  /** Origins besides the request's own allowed to send unsafe requests */
+  trustedOrigins?: string[];
+  /** Header carrying the token (default `x-csrf-token`) */
+  headerName?: string;
+  /** Form or JSON body field carrying the token (default `_csrf`) */
+  fieldName?: string;
+  /** Double-submit cookie name (default `_csrf`) */
+  cookieName?: string;
+  /** Double-submit cookie attributes (default `sameSite: 'lax'`, path `/`, readable by scripts) */
+  cookie?: CookieOptions;
+}
+
+export class CsrfError extends Error {
+  readonly statusCode = 403;
+  readonly code = 'CSRF_REJECTED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsrfError';
+  }
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const SESSION_KEY = '_csrf';
+
+// ─── Checks ───
+
+/**
+ * Whether `origin` is the one the browser sent the request to. Behind a
+ * trusted proxy that is the forwarded protocol and host, not the URL the
+ * proxy requested; proxies don't reliably forward the port, so any matches.
+ */
+function isOwnOrigin(origin: string, request: Request): boolean {
+  const { ips, protocol, hostname } = request as Partial<VuraRequest>;
+  if (!ips?.length) return origin === new URL(request.url).origin;
+
+  try {
+    const parsed = new URL(origin);
+    return parsed.protocol === `${protocol}:` && parsed.hostname.replace(/^\[|\]$/g, '') === hostname;
+  } catch {
+    // `null` and other opaque origins
+    return false;
+  }
+}
+
+/**
+ * Reject cross-origin requests by `Origin`, falling back to `Sec-Fetch-Site`
+ * when the browser sent no Origin. Requests with neither (non-browser
+ * clients) pass and rely on the token check.
+ */
+function checkOrigin(request: Request, trustedOrigins: Set<string>): void {
+  const origin = request.headers.get('origin');
+  if (origin !== null) {
+    if (!isOwnOrigin(origin, request) && !trustedOrigins.has(origin)) {
+      throw new CsrfError('Cross-origin request blocked');
+    }
+    return;
+  }
+
+  const site = request.headers.get('sec-fetch-site');
+  if (site !== null && site !== 'same-origin' && site !== 'none') {
+    throw new CsrfError('Cross-origin request blocked');
+  }
+}
+
+/** The token from the header, or from a form / JSON body field */
+function submittedToken(request: VuraRequest, headerName: string, fieldName: string): string | null {
+  const header = request.headers.get(headerName);
+  if (header) return header;
+
+  const body = request.parsedBody;
+  if (body instanceof FormData) {
+    const value = body.get(fieldName);
+    return typeof value === 'string' ? value : null;
+  }
+  if (body && typeof body === 'object') {
+    const value = (body as Record<string, unknown>)[fieldName];
+    return typeof value === 'string' ? value : null;
+  }
+  return null;
+}
+
+/** Compare without an early exit, so timing does not reveal the matching prefix */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function newToken(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
+
+function sessionId(request: Request): string | undefined {
+  return (request as Partial<VuraRequest>).session?.id;
+}
+
+/**
+ * `nonce.signature`, signing the nonce together with the client. The client
+ * stays out of the (script-readable) token, and a token issued to anyone else
+ * — say, planted by a sibling subdomain — fails verification.
+ */
+async function signToken(client: string, secret: CookieSecret): Promise<string> {
+  const nonce = newToken();
+  const signed = await signCookie(`${nonce}!${client}`, secret);
+  return `${nonce}${signed.slice(signed.lastIndexOf('.'))}`;
+}
+
+async function isTokenFor(token: string, client: string, secret: CookieSecret): Promise<boolean> {
+  const dot = token.indexOf('.');
+  if (dot === -1) return false;
+  return (await unsignCookie(`${token.slice(0, dot)}!${client}${token.slice(dot)}`, secret)) !== null;
+}
+
+/** A double-submit cookie is valid when the request echoes it and it was signed for this client */
+async function verifyDoubleSubmit(
+  cookie: string | undefined,
+  token: string | null,
+  client: string | undefined,
+  secret: CookieSecret,
+): Promise<void> {
+  const valid = cookie && token && client !== undefined && safeEqual(cookie, token) && (await isTokenFor(cookie, client, secret));
+  if (!valid) {
+    throw new CsrfError('Invalid CSRF token');
+  }
+}
+
+// ─── Plugin ───
+
+/**
+ * Protect POST/PUT/PATCH/DELETE routes in the registering context. The token
+ * is checked in `preValidation`, after body parsing, so form fields work.
+ * Exempt a route (e.g. a webhook) with `config: { csrf: false }`.
+ */
+export const csrf = definePlugin<CsrfOptions>(
+  { name: '@vura/csrf', encapsulate: false },
+  (app, options) => {
+    const pattern = options.pattern ?? 'synchronizer';
+    const headerName = options.headerName ?? 'x-csrf-token';
+    const fieldName = options.fieldName ?? '_csrf';
+    const cookieName = options.cookieName ?? '_csrf';
+    const cookieOptions: CookieOptions = { sameSite: 'lax', path: '/', ...options.cookie };
+    const trustedOrigins = new Set(options.trustedOrigins ?? []);
+    const secret = options.secret;
+    const identify = options.identify ?? sessionId;
+
+    if (pattern === 'synchronizer' && !app.hasPlugin('@vura/session')) {
+      throw new Error('The synchronizer CSRF pattern needs the session plugin; register it first or use pattern: "double-submit"');
+    }
+    if (pattern === 'double-submit' && secret === undefined) {
+      throw new Error('The double-submit CSRF pattern needs a `secret`');
+    }
+
+    /** Double-submit tokens issued during a request, to set as cookies in onSend */
+    const issued = new WeakMap<VuraRequest, string>();
+
+    app.addHook('onRequest', (request) => {
+      request.csrfToken = async () => {
+        if (pattern === 'synchronizer') {
+          // Registration made sure the session plugin runs first
+          let token = request.session!.get<string>(SESSION_KEY);
+          if (!token) {
+            token = newToken();
+            request.session!.set(SESSION_KEY, token);
+          }
+          return token;
+        }
+
+        const client = identify(request);
+        if (client === undefined) {
+          throw new Error('Double-submit CSRF tokens are bound to a client; start a server-side session or pass `identify`');
+        }
+        const existing = issued.get(request) ?? request.cookies[cookieName];
+        if (existing && (await isTokenFor(existing, client, secret!))) return existing;
+        const token = await signToken(client, secret!);
+        issued.set(request, token);
+        return token;
+      };
+    });
+
+    app.addHook('preValidation', async (request) => {
+      if (SAFE_METHODS.has(request.method) || request.routeOptions.config.csrf === false) return;
+
+      checkOrigin(request, trustedOrigins);
+      const token = submittedToken(request, headerName, fieldName);
+      if (pattern === 'synchronizer') {
+        const expected = request.session!.get<string>(SESSION_KEY);
+        if (!expected || !token || !safeEqual(expected, token)) {
+          throw new CsrfError('Invalid CSRF token');
+        }
+      } else {
+        await verifyDoubleSubmit(request.cookies[cookieName], token, identify(request), secret!);
+      }
+    });
+
+    if (pattern === 'double-submit') {
+      app.addHook('onSend', (request, reply, response) => {
+        const token = issued.get(request);
+        if (!token) return;
+        const headers = new Headers(response.headers);
+        headers.append('set-cookie', serializeCookie(cookieName, token, cookieOptions));
+        return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+      });
+    }
+  },
+);
+
+// ─── RPC ───
+
+export interface CsrfProcedureOptions {
+  /** The secret the double-submit cookie was signed with */
+  secret: CookieSecret;
+  /** The client the token was issued to, as the plugin's `identify` (default: the server-side session id) */
+  identify?: (request: Request) => string | undefined;
+  trustedOrigins?: string[];
+  /** Default `x-csrf-token` */
+  headerName?: string;
+  /** Default `_csrf` */
+  cookieName?: string;
+}
+
+/**
+ * RPC middleware for mutations: checks `Origin`/`Sec-Fetch-Site` and that the
+ * token header echoes the double-submit cookie the `csrf` plugin set for this
+ * client.
+ * Throws a CsrfError (403) otherwise. GET queries pass.
+ */
+export function csrfProcedure(options: CsrfProcedureOptions) {
+  const trustedOrigins = new Set(options.trustedOrigins ?? []);
+  const headerName = options.headerName ?? 'x-csrf-token';
+  const cookieName = options.cookieName ?? '_csrf';
+  const identify = options.identify ?? sessionId;
+
+  return async (opts: { ctx: { request: Request; [key: string]: unknown }; next: () => Promise<unknown> }) => {
+    const request = opts.ctx.request;
+    if (!SAFE_METHODS.has(request.method.toUpperCase())) {
+      checkOrigin(request, trustedOrigins);
+      const cookie = parseCookies(request.headers.get('cookie'))[cookieName];
+      await verifyDoubleSubmit(cookie, request.headers.get(headerName), identify(request), options.secret);
+    }
+    return opts.next();
+  };
+}
@@ -0,0 +1,28 @@
+// @vura/server — Hook store helpers shared by the app and router
+
+import type { HookName, RouteHooks } from './types.js';
+
+/** Every lifecycle hook, in the order they run */
+export const HOOK_NAMES: readonly HookName[] = [
+  'onRequest',
+  'preParsing',
+  'preValidation',
+  'preHandler',
+  'preSerialization',
+  'onSend',
+  'onResponse',
+  'onError',
+];
+
+export function createHookStore(): RouteHooks {
+  return {
+    onRequest: [],
+    preParsing: [],
+    preValidation: [],
+    preHandler: [],
+    preSerialization: [],
+    onSend: [],
+    onResponse: [],
+    onError: [],
+  };
+}
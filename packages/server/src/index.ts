@@ -1,14 +1,152 @@
 // @vura/server — Hook-based server runtime on Web Standard APIs
 
 export { VuraApp, createApp } from './app.js';
+export type { DecoratedApp } from './app.js';
 export { createReply } from './reply.js';
-export { Router } from './router.js';
+export { Router, RouteConflictError } from './router.js';
+export { ValidationError, ResponseValidationError } from './validation.js';
+export { BodyParseError, BodyLimitError, DEFAULT_BODY_LIMIT } from './body.js';
+export {
+  parseMultipart,
+  readMultipart,
+  multipartParser,
+  DiskStorage,
+  MemoryStorage,
+  defaultStorage,
+  MultipartLimitError,
+} from './multipart.js';
+export { buildStringifier } from './serializer.js';
+export { hostConstraint, versionConstraint, satisfies } from './constraints.js';
+export {
+  parseCookies,
+  serializeCookie,
+  writeNodeHeaders,
+  signCookie,
+  unsignCookie,
+  encryptCookie,
+  decryptCookie,
+} from './cookie.js';
+export { SendFileError } from './send-file.js';
+export { formatEvent } from './sse.js';
+export { parseAccept, negotiate, appendVary } from './negotiation.js';
+export { definePlugin, PluginError } from './plugin.js';
+export { compress } from './compress.js';
+export { cors } from './cors.js';
+export {
+  rateLimit,
+  rateLimitProcedure,
+  rateLimitHeaders,
+  RateLimiter,
+  RateLimitError,
+  MemoryStore,
+} from './rate-limit.js';
+export { session, MemorySessionStore, FileSessionStore } from './session.js';
+export { csrf, csrfProcedure, CsrfError } from './csrf.js';
+export { securityHeaders, securityPolicy } from './security-headers.js';
 export { defineConfig, loadConfig } from './config.js';
 
 export type {
   VuraConfig,
 } from './config.js';
 
+export type {
+  ReplyOptions,
+} from './reply.js';
+
+export type {
+  ParseAs,
+  ParsedAs,
+  ContentTypeParser,
+  ContentTypeParserOptions,
+  ContentTypeMatcher,
+} from './body.js';
+
+export type {
+  MultipartLimits,
+  MultipartField,
+  MultipartFile,
+  MultipartPart,
+  MultipartStorage,
+  MultipartOptions,
+  MultipartBody,
+  UploadInfo,
+  StoredFile,
+} from './multipart.js';
+
+export type {
+  TrustProxy,
+  ConnectionInfo,
+} from './proxy.js';
+
+export type {
+  CookieOptions,
+  CookieSecret,
+} from './cookie.js';
+
+export type {
+  SendFileOptions,
+} from './send-file.js';
+
+export type {
+  SSEMessage,
+  SSEOptions,
+  SSESource,
+  SSEStream,
+} from './sse.js';
+
+export type {
+  NegotiationKind,
+  Preference,
+} from './negotiation.js';
+
+export type {
+  CompressOptions,
+  CompressionEncoding,
+} from './compress.js';
+
+export type {
+  CorsOptions,
+  CorsOrigin,
+} from './cors.js';
+
+export type {
+  RateLimitAlgorithm,
+  RateLimitRule,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitUpdate,
+  RateLimitResult,
+  RateLimiterOptions,
+  RateLimitOptions,
+  RateLimitProcedureOptions,
+} from './rate-limit.js';
+
+export type {
+  Session,
+  SessionData,
+  SessionRecord,
+  SessionStore,
+  SessionOptions,
+} from './session.js';
+
+export type {
+  CsrfPattern,
+  CsrfOptions,
+  CsrfProcedureOptions,
+} from './csrf.js';
+
+export type {
+  SecurityHeadersOptions,
+  ContentSecurityPolicyOptions,
+  StrictTransportSecurityOptions,
+  CspDirectives,
+} from './security-headers.js';
+
+export type {
+  RouteExtras,
+  RouterOptions,
+} from './router.js';
+
 export type {
   VuraAppOptions,
   VuraRequest,
@@ -16,12 +154,26 @@ export type {
   HookName,
   HookHandler,
   OnErrorHandler,
+  PreSerializationHandler,
+  OnSendHandler,
   RouteMethod,
   RouteHandler,
+  RouteResult,
   RouteOptions,
   RouteMatch,
+  RouteConstraints,
+  RouteConfig,
+  ConstraintStrategy,
   InternalRoute,
+  RouteValidators,
+  ValidationTarget,
+  ResponseSerializer,
+  ResponseSerializers,
   PluginFunction,
+  PluginMeta,
   PluginOptions,
   PluginContext,
+  DecoratedPluginContext,
+  DecorationValue,
+  FormatHandlers,
 } from './types.js';
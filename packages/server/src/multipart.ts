@@ -0,0 +1,568 @@
+// @vura/server — Streaming multipart/form-data parsing with limits and pluggable file storage
+
+import { BodyParseError } from './body.js';
+import type { ContentTypeParser } from './body.js';
+
+// ─── Types ───
+
+export interface MultipartLimits {
+  /** Non-file fields (default 50) */
+  fields?: number;
+  /** Bytes per field value (default 64 KiB) */
+  fieldSize?: number;
+  /** Files (default 10) */
+  files?: number;
+  /** Bytes per file (default 10 MiB) */
+  fileSize?: number;
+}
+
+export interface MultipartField {
+  type: 'field';
+  name: string;
+  value: string;
+}
+
+/** An uploaded file; read `stream` before asking for the next part, or it is skipped */
+export interface MultipartFile {
+  type: 'file';
+  name: string;
+  filename: string;
+  mimeType: string;
+  stream: ReadableStream<Uint8Array>;
+}
+
+export type MultipartPart = MultipartField | MultipartFile;
+
+export interface UploadInfo {
+  /** Form field name */
+  name: string;
+  /** Client-supplied file name — do not use it as a path */
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Where `readMultipart` streams files: a temp directory, object storage, etc.
+ * `put` must leave nothing behind when the stream errors (limit or abort).
+ */
+export interface MultipartStorage {
+  /** Store the bytes and resolve with a location `remove` understands */
+  put(info: UploadInfo, stream: ReadableStream<Uint8Array>): Promise<string>;
+  remove(location: string): Promise<void>;
+  /** The stored bytes, for storages that hold them in memory; they become the StoredFile's `data` */
+  get?(location: string): Uint8Array | undefined;
+}
+
+export interface StoredFile extends UploadInfo {
+  /** What the storage's `put` returned (a path for DiskStorage) */
+  location: string;
+  size: number;
+  /** The file's bytes, when the storage holds them in memory (MemoryStorage) */
+  data?: Uint8Array;
+}
+
+/** Fields as strings and files as StoredFiles; repeated names become arrays */
+export type MultipartBody = Record<string, string | StoredFile | Array<string | StoredFile>>;
+
+export interface MultipartOptions {
+  limits?: MultipartLimits;
+  /** Default: a DiskStorage in the OS temp directory, or a MemoryStorage without `node:fs` */
+  storage?: MultipartStorage;
+  /** Remove stored files once the response is sent (default: true with the default storage) */
+  cleanup?: boolean;
+  /** Stop reading, and remove stored files, when this aborts */
+  signal?: AbortSignal;
+}
+
+export class MultipartLimitError extends Error {
+  readonly statusCode = 413;
+  readonly code = 'MULTIPART_LIMIT';
+
+  constructor(
+    readonly limit: keyof MultipartLimits,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'MultipartLimitError';
+  }
+}
+
+// Field values are held in memory, so at most 3.2 MiB per request
+const DEFAULT_LIMITS: Required<MultipartLimits> = {
+  fields: 50,
+  fieldSize: 65_536,
+  files: 10,
+  fileSize: 10_485_760,
+};
+
+/** Bytes of headers allowed per part, and of preamble before the first boundary */
+const MAX_HEADER_SIZE = 16_384;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const CRLF = encoder.encode('\r\n');
+const HEADER_END = encoder.encode('\r\n\r\n');
+
+// ─── Reader ───
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  const last = haystack.length - needle.length;
+  let i = haystack.indexOf(needle[0]!);
+  while (i !== -1 && i <= last) {
+    let j = 1;
+    while (j < needle.length && haystack[i + j] === needle[j]) j++;
+    if (j === needle.length) return i;
+    i = haystack.indexOf(needle[0]!, i + 1);
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+/** Pulls the body on demand, keeping only the bytes not yet consumed */
+class ByteReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  constructor(
+    private readonly reader: ReadableStreamDefaultReader<Uint8Array>,
+    private readonly signal: AbortSignal | undefined,
+  ) {}
+
+  private async more(): Promise<void> {
+    this.signal?.throwIfAborted();
+    const { done, value } = await this.reader.read();
+    this.signal?.throwIfAborted();
+    if (done) throw new BodyParseError('Unexpected end of multipart body');
+    this.buffer = concat(this.buffer, value);
+  }
+
+  /** The bytes before `needle`, consuming both; `max` bounds the search */
+  async readUntil(needle: Uint8Array, max: number): Promise<Uint8Array> {
+    for (;;) {
+      const index = indexOf(this.buffer, needle);
+      if (index !== -1) {
+        const bytes = this.buffer.subarray(0, index);
+        this.buffer = this.buffer.subarray(index + needle.length);
+        return bytes;
+      }
+      if (this.buffer.length > max + needle.length) {
+        throw new BodyParseError('Multipart headers too large');
+      }
+      await this.more();
+    }
+  }
+
+  async take(length: number): Promise<Uint8Array> {
+    while (this.buffer.length < length) await this.more();
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  /**
+   * The next bytes of a part's content. Holds back a possible partial
+   * delimiter; `last` is set once the delimiter itself has been consumed.
+   */
+  async content(delimiter: Uint8Array): Promise<{ bytes: Uint8Array; last: boolean }> {
+    for (;;) {
+      const index = indexOf(this.buffer, delimiter);
+      if (index !== -1) {
+        const bytes = this.buffer.subarray(0, index);
+        this.buffer = this.buffer.subarray(index + delimiter.length);
+        return { bytes, last: true };
+      }
+      const safe = this.buffer.length - delimiter.length + 1;
+      if (safe > 0) {
+        const bytes = this.buffer.subarray(0, safe);
+        this.buffer = this.buffer.subarray(safe);
+        return { bytes, last: false };
+      }
+      await this.more();
+    }
+  }
+
+  async cancel(reason?: unknown): Promise<void> {
+    await this.reader.cancel(reason).catch(() => {});
+  }
+}
+
+// ─── Headers ───
+
+function getBoundary(contentType: string): string | null {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? (match[1] ?? match[2]!) : null;
+}
+
+/** `name=value` parameters of a header, unquoted; `filename*` is RFC 5987 decoded */
+function headerParams(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [, key, raw] of value.matchAll(/;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+    const name = key!.toLowerCase();
+    let param = raw!.trim();
+    if (param.startsWith('"')) param = param.slice(1, -1).replace(/\\(.)/g, '$1');
+    if (name.endsWith('*')) {
+      const encoded = /^[\w-]+'[^']*'(.*)$/.exec(param);
+      try {
+        params[name.slice(0, -1)] = decodeURIComponent(encoded ? encoded[1]! : param);
+      } catch {
+        // Keep the plain parameter, if any
+      }
+      continue;
+    }
+    params[name] ??= param;
+  }
+  return params;
+}
+
+function parseHeaders(block: Uint8Array): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of decoder.decode(block).split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  return headers;
+}
+
+// ─── Parsing ───
+
+/**
+ * Parse a multipart/form-data body as it streams in, yielding fields and
+ * files in order. Each file's `stream` must be read (or cancelled) before
+ * the next part is requested; unread content is skipped. Throws a
+ * MultipartLimitError (413) past a limit and a BodyParseError (400) for
+ * malformed bodies.
+ *
+ *   for await (const part of parseMultipart(request.body!, request.headers.get('content-type')!)) { ... }
+ */
+export async function* parseMultipart(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  options: Pick<MultipartOptions, 'limits' | 'signal'> = {},
+): AsyncGenerator<MultipartPart, void, undefined> {
+  const boundary = getBoundary(contentType);
+  if (!boundary) throw new BodyParseError('Missing multipart boundary');
+  const limits = { ...DEFAULT_LIMITS, ...options.limits };
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  const reader = new ByteReader(body.getReader(), options.signal);
+  const abort = () => void reader.cancel(options.signal?.reason);
+  options.signal?.addEventListener('abort', abort, { once: true });
+  let fields = 0;
+  let files = 0;
+  let complete = false;
+
+  /** After a delimiter: true when another part follows, false at the closing `--` */
+  const nextPart = async (): Promise<boolean> => {
+    const marker = decoder.decode(await reader.take(2));
+    if (marker === '--') return false;
+    if (marker !== '\r\n') throw new BodyParseError('Malformed multipart boundary');
+    return true;
+  };
+
+  try {
+    // The first boundary has no leading CRLF; anything before it is preamble
+    await reader.readUntil(delimiter.subarray(CRLF.length), MAX_HEADER_SIZE);
+    let more = await nextPart();
+
+    while (more) {
+      const headers = parseHeaders(await reader.readUntil(HEADER_END, MAX_HEADER_SIZE));
+      const params = headerParams(headers.get('content-disposition') ?? '');
+      if (params.name === undefined) throw new BodyParseError('Multipart part without a field name');
+
+      if (params.filename === undefined) {
+        if (++fields > limits.fields) {
+          throw new MultipartLimitError('fields', `Too many fields (limit ${limits.fields})`);
+        }
+        let value: Uint8Array = new Uint8Array(0);
+        for (;;) {
+          const { bytes, last } = await reader.content(delimiter);
+          if (value.length + bytes.length > limits.fieldSize) {
+            throw new MultipartLimitError('fieldSize', `Field "${params.name}" exceeds ${limits.fieldSize} bytes`);
+          }
+          value = concat(value, bytes.slice());
+          if (last) break;
+        }
+        yield { type: 'field', name: params.name, value: decoder.decode(value) };
+      } else {
+        if (++files > limits.files) {
+          throw new MultipartLimitError('files', `Too many files (limit ${limits.files})`);
+        }
+        const file = fileStream(reader, delimiter, params.name, limits.fileSize);
+        yield {
+          type: 'file',
+          name: params.name,
+          filename: params.filename,
+          mimeType: headers.get('content-type') ?? 'application/octet-stream',
+          stream: file.stream,
+        };
+        await file.finish();
+      }
+      more = await nextPart();
+    }
+    complete = true;
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+    if (!complete) await reader.cancel();
+  }
+}
+
+/** A file's content as a stream pulled from the shared reader */
+function fileStream(reader: ByteReader, delimiter: Uint8Array, name: string, maxSize: number) {
+  let size = 0;
+  let done = false;
+  let failure: unknown;
+  let pulling: Promise<void> | undefined;
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+
+  const read = async (): Promise<Uint8Array | null> => {
+    const { bytes, last } = await reader.content(delimiter);
+    size += bytes.length;
+    if (size > maxSize) throw new MultipartLimitError('fileSize', `File "${name}" exceeds ${maxSize} bytes`);
+    done = last;
+    return bytes.length > 0 ? bytes.slice() : null;
+  };
+
+  // highWaterMark 0: nothing is read until the consumer asks
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      start(c) {
+        controller = c;
+      },
+      pull(c) {
+        pulling = (async () => {
+          try {
+            // Skip empty reads so consumers never see zero-length chunks
+            let bytes: Uint8Array | null = null;
+            while (!done && bytes === null) bytes = await read();
+            if (bytes) c.enqueue(bytes);
+            if (done) c.close();
+          } catch (error) {
+            failure = error;
+            c.error(error);
+          }
+        })();
+        return pulling;
+      },
+    },
+    { highWaterMark: 0 },
+  );
+
+  return {
+    stream,
+    /** Skip whatever the consumer left unread; rethrow a failure it saw */
+    async finish(): Promise<void> {
+      await pulling;
+      if (failure) throw failure;
+      if (done) return;
+      try {
+        while (!done) await read();
+      } catch (error) {
+        controller.error(error);
+        throw error;
+      }
+      try {
+        controller.error(new Error(`File "${name}" was not read before the next part`));
+      } catch {
+        // Already closed
+      }
+    },
+  };
+}
+
+// ─── Storage ───
+
+/** Files in a directory (default: `vura-uploads` in the OS temp directory) under random names */
+export class DiskStorage implements MultipartStorage {
+  constructor(private readonly dir?: string) {}
+
+  async put(info: UploadInfo, stream: ReadableStream<Uint8Array>): Promise<string> {
+    const { mkdir, open, rm } = await import('node:fs/promises');
+    const { join } = await import('node:path');
+    const { tmpdir } = await import('node:os');
+    const dir = this.dir ?? join(tmpdir(), 'vura-uploads');
+    await mkdir(dir, { recursive: true });
+
+    const path = join(dir, crypto.randomUUID());
+    const handle = await open(path, 'wx');
+    const reader = stream.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await handle.write(value);
+      }
+    } catch (error) {
+      // Leave no partial file behind
+      await handle.close();
+      await rm(path, { force: true });
+      throw error;
+    }
+    await handle.close();
+    return path;
+  }
+
+  async remove(location: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(location, { force: true });
+  }
+}
+
+/**
+ * Files held in memory, for runtimes without a file system (Cloudflare
+ * Workers and other edge runtimes). Each StoredFile carries its bytes as
+ * `data`. Every file counts against the runtime's memory, so keep the
+ * `files` and `fileSize` limits low.
+ */
+export class MemoryStorage implements MultipartStorage {
+  private files = new Map<string, Uint8Array>();
+
+  async put(_info: UploadInfo, stream: ReadableStream<Uint8Array>): Promise<string> {
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    const location = `memory:${crypto.randomUUID()}`;
+    this.files.set(location, bytes);
+    return location;
+  }
+
+  get(location: string): Uint8Array | undefined {
+    return this.files.get(location);
+  }
+
+  async remove(location: string): Promise<void> {
+    this.files.delete(location);
+  }
+}
+
+let hasFileSystem: Promise<boolean> | undefined;
+
+/** A DiskStorage where `node:fs` can be imported, otherwise a MemoryStorage */
+export async function defaultStorage(): Promise<MultipartStorage> {
+  hasFileSystem ??= import('node:fs/promises').then(() => true, () => false);
+  return (await hasFileSystem) ? new DiskStorage() : new MemoryStorage();
+}
+
+/**
+ * Read a whole multipart body: fields as strings, files streamed into
+ * `storage`. On any failure — a limit, a malformed body, an abort — the
+ * files stored so far are removed before the error is rethrown.
+ */
+export async function readMultipart(
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  options: MultipartOptions = {},
+): Promise<{ body: MultipartBody; files: StoredFile[] }> {
+  const storage = options.storage ?? (await defaultStorage());
+  const result: MultipartBody = {};
+  const files: StoredFile[] = [];
+
+  const add = (name: string, value: string | StoredFile) => {
+    const existing = result[name];
+    if (existing === undefined) result[name] = value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else result[name] = [existing, value];
+  };
+
+  try {
+    for await (const part of parseMultipart(body, contentType, options)) {
+      if (part.type === 'field') {
+        add(part.name, part.value);
+        continue;
+      }
+      const info: UploadInfo = { name: part.name, filename: part.filename, mimeType: part.mimeType };
+      let size = 0;
+      const counted = part.stream.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            size += chunk.byteLength;
+            controller.enqueue(chunk);
+          },
+        }),
+      );
+      const location = await storage.put(info, counted);
+      const data = storage.get?.(location);
+      const file: StoredFile = { ...info, location, size, ...(data ? { data } : {}) };
+      files.push(file);
+      add(part.name, file);
+    }
+  } catch (error) {
+    await removeFiles(storage, files);
+    throw error;
+  }
+  return { body: result, files };
+}
+
+function removeFiles(storage: MultipartStorage, files: StoredFile[]): Promise<unknown> {
+  return Promise.allSettled(files.map((file) => storage.remove(file.location)));
+}
+
+// ─── App Integration ───
+
+/** Stored files to remove once the response is sent */
+const uploads = new WeakMap<Request, () => Promise<unknown>>();
+
+/**
+ * A content-type parser (`parseAs: 'stream'`) that reads multipart bodies
+ * with `readMultipart` into `request.parsedBody`. VuraApp uses it for
+ * `multipart/form-data`; register it in a scope to change limits or storage.
+ */
+export function multipartParser(options: Omit<MultipartOptions, 'signal'> = {}): ContentTypeParser<ReadableStream<Uint8Array>> {
+  let resolved: Promise<MultipartStorage> | undefined;
+  const cleanup = options.cleanup ?? options.storage === undefined;
+
+  return async (body, request) => {
+    const storage = options.storage ?? (await (resolved ??= defaultStorage()));
+    const { body: parsed, files } = await readMultipart(body, request.headers.get('content-type') ?? '', {
+      ...options,
+      storage,
+      signal: request.signal,
+    });
+    if (cleanup && files.length > 0) uploads.set(request, () => removeFiles(storage, files));
+    return parsed;
+  };
+}
+
+/**
+ * Remove the request's temporary uploads, if any, once `response` is done
+ * with them (called by VuraApp): straight away without a body, otherwise
+ * when the body has been read to the end, cancelled or has failed, so a
+ * streamed reply such as `sendFile` of an upload can still read it.
+ */
+export function releaseUploads(request: Request, response: Response): Response {
+  const release = uploads.get(request);
+  if (!release) return response;
+  uploads.delete(request);
+  const finish = () => {
+    release().catch(() => {});
+  };
+  if (!response.body) {
+    finish();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (!done) return controller.enqueue(value);
+        controller.close();
+        finish();
+      } catch (error) {
+        controller.error(error);
+        finish();
+      }
+    },
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason);
+      } finally {
+        finish();
+      }
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
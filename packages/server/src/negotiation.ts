@@ -0,0 +1,176 @@
+// @vura/server — Content negotiation (Accept, Accept-Language, Accept-Encoding)
+
+export type NegotiationKind = 'type' | 'language' | 'encoding';
+
+/** One entry of an Accept-style header */
+export interface Preference {
+  value: string;
+  /** `q` parameter, 0–1 (default 1) */
+  quality: number;
+  /** Media type parameters other than `q` */
+  params: Record<string, string>;
+  /** Position in the header — earlier wins ties */
+  index: number;
+}
+
+// ─── Parsing ───
+
+/**
+ * Parse an Accept-style header into preferences, best first. Entries with
+ * `q=0` (explicitly refused) are kept so matching can honour them.
+ */
+export function parseAccept(header: string | null | undefined): Preference[] {
+  if (!header) return [];
+
+  const preferences: Preference[] = [];
+  splitList(header).forEach((entry, index) => {
+    const [rawValue, ...rawParams] = entry.split(';');
+    const value = rawValue!.trim().toLowerCase();
+    if (!value) return;
+
+    let quality = 1;
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const eq = param.indexOf('=');
+      if (eq === -1) continue;
+      const key = param.slice(0, eq).trim().toLowerCase();
+      const val = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+      if (key === 'q') {
+        const q = Number(val);
+        quality = Number.isFinite(q) ? Math.min(1, Math.max(0, q)) : 0;
+      } else {
+        params[key] = val.toLowerCase();
+      }
+    }
+    preferences.push({ value, quality, params, index });
+  });
+
+  return preferences.sort((a, b) => b.quality - a.quality || a.index - b.index);
+}
+
+/** Split on commas outside quoted strings */
+function splitList(header: string): string[] {
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of header) {
+    if (char === '"') quoted = !quoted;
+    if (char === ',' && !quoted) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+  return entries;
+}
+
+// ─── Matching ───
+
+/**
+ * Filter `available` to what the header accepts, best first: by quality,
+ * then by how specific the matching entry is, then by header order, then by
+ * the order of `available`. A missing header accepts anything, except for
+ * encodings, where only `identity` is assumed.
+ */
+export function negotiate(header: string | null | undefined, available: string[], kind: NegotiationKind): string[] {
+  const preferences = parseAccept(header);
+  if (header == null || preferences.length === 0) {
+    if (kind !== 'encoding') return [...available];
+    return available.filter((value) => value.toLowerCase() === 'identity');
+  }
+
+  const ranked: Array<{ value: string; quality: number; specificity: number; index: number; order: number }> = [];
+  available.forEach((value, order) => {
+    const match = bestMatch(value.toLowerCase(), preferences, kind);
+    if (match && match.quality > 0) {
+      ranked.push({ value, ...match, order });
+    }
+  });
+
+  return ranked
+    .sort((a, b) => b.quality - a.quality || b.specificity - a.specificity || a.index - b.index || a.order - b.order)
+    .map((entry) => entry.value);
+}
+
+/** The most specific preference that covers `value` */
+function bestMatch(
+  value: string,
+  preferences: Preference[],
+  kind: NegotiationKind,
+): { quality: number; specificity: number; index: number } | null {
+  let best: { quality: number; specificity: number; index: number } | null = null;
+  for (const preference of preferences) {
+    const specificity = matchSpecificity(value, preference, kind);
+    if (specificity < 0) continue;
+    if (!best || specificity > best.specificity || (specificity === best.specificity && preference.index < best.index)) {
+      best = { quality: preference.quality, specificity, index: preference.index };
+    }
+  }
+
+  // identity is acceptable unless refused (RFC 9110 §12.5.3)
+  if (!best && kind === 'encoding' && value === 'identity') {
+    return { quality: 0.001, specificity: 0, index: Number.MAX_SAFE_INTEGER };
+  }
+  return best;
+}
+
+/** Higher is more specific; -1 when the preference does not cover the value */
+function matchSpecificity(value: string, preference: Preference, kind: NegotiationKind): number {
+  const range = preference.value;
+
+  if (kind === 'type') {
+    const [type, subtypeWithParams = ''] = value.split('/');
+    const subtype = subtypeWithParams.split(';')[0]!.trim();
+    const [rangeType, rangeSubtype] = range.split('/');
+    if (range === '*/*') return 1;
+    if (rangeType !== type) return -1;
+    if (rangeSubtype === '*') return 2;
+    if (rangeSubtype !== subtype) return -1;
+    // Parameters on the range must all be present on the value
+    const valueParams = parseAccept(value)[0]?.params ?? {};
+    for (const [key, val] of Object.entries(preference.params)) {
+      if (valueParams[key] !== val) return -1;
+    }
+    return 3 + Object.keys(preference.params).length;
+  }
+
+  if (range === '*') return 1;
+  if (range === value) return 4;
+
+  if (kind === 'language') {
+    // en matches en-US, and en-US falls back to en
+    if (value.startsWith(`${range}-`)) return 3;
+    if (range.startsWith(`${value}-`)) return 2;
+  }
+  return -1;
+}
+
+// ─── Request Helpers ───
+
+/** Accepted values in preference order, without refused (`q=0`) entries */
+export function preferred(header: string | null | undefined, kind: NegotiationKind): string[] {
+  if (!header && kind === 'encoding') return ['identity'];
+  return parseAccept(header)
+    .filter((preference) => preference.quality > 0)
+    .map((preference) => preference.value);
+}
+
+/** Backs `request.accepts()` and friends: no argument lists preferences, a list picks the best */
+export function createNegotiator(header: string | null, kind: NegotiationKind) {
+  function accepts(): string[];
+  function accepts(available: string[]): string | false;
+  function accepts(available?: string[]): string[] | string | false {
+    if (!available) return preferred(header, kind);
+    return negotiate(header, available, kind)[0] ?? false;
+  }
+  return accepts;
+}
+
+/** Add a field to a Vary header once (`*` already covers everything) */
+export function appendVary(headers: Headers, field: string): void {
+  const fields = (headers.get('vary') ?? '').split(',').map((f) => f.trim()).filter(Boolean);
+  if (fields.some((f) => f === '*' || f.toLowerCase() === field.toLowerCase())) return;
+  headers.set('vary', [...fields, field].join(', '));
+}
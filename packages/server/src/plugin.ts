@@ -0,0 +1,82 @@
+// @vura/server — Plugin metadata (definePlugin)
+
+import type { PluginFunction, PluginMeta } from './types.js';
+
+// ─── Errors ───
+
+export class PluginError extends Error {
+  constructor(
+    readonly plugin: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'PluginError';
+  }
+}
+
+// ─── definePlugin ───
+
+/** Any plugin, whatever its options and decoration types */
+type AnyPlugin = (...args: never[]) => unknown;
+
+const pluginMeta = new WeakMap<AnyPlugin, PluginMeta>();
+
+/**
+ * Attach metadata to a plugin. Named plugins are tracked so dependencies and
+ * duplicate registrations are checked at boot; `encapsulate: false` runs the
+ * plugin in the registering context so its hooks and decorations are shared.
+ */
+export function definePlugin<
+  TOptions extends Record<string, unknown> = Record<string, unknown>,
+  TApp = {},
+  TRequest = {},
+  TReply = {},
+>(
+  meta: PluginMeta,
+  plugin: PluginFunction<TOptions, TApp, TRequest, TReply>,
+): PluginFunction<TOptions, TApp, TRequest, TReply> {
+  // Wrap so the same function can be defined under several names
+  const wrapped: PluginFunction<TOptions, TApp, TRequest, TReply> = (app, options) => plugin(app, options);
+  pluginMeta.set(wrapped, meta);
+  return wrapped;
+}
+
+export function getPluginMeta(plugin: AnyPlugin): PluginMeta | undefined {
+  return pluginMeta.get(plugin);
+}
+
+// ─── Boot Checks ───
+
+/** State a registering context exposes to metadata checks */
+export interface PluginScope {
+  plugins: Set<string>;
+  decorations: Map<string, unknown>;
+  requestDecorations: Map<string, unknown>;
+}
+
+/** Throw a PluginError if `meta` cannot be registered in `scope` */
+export function checkPlugin(meta: PluginMeta, scope: PluginScope): void {
+  if (scope.plugins.has(meta.name)) {
+    throw new PluginError(meta.name, `Plugin "${meta.name}" is already registered`);
+  }
+
+  for (const dependency of meta.dependencies ?? []) {
+    if (!scope.plugins.has(dependency)) {
+      throw new PluginError(
+        meta.name,
+        `Plugin "${meta.name}" depends on "${dependency}", which must be registered first`,
+      );
+    }
+  }
+
+  for (const name of meta.decorators?.app ?? []) {
+    if (!scope.decorations.has(name)) {
+      throw new PluginError(meta.name, `Plugin "${meta.name}" requires app decorator "${name}"`);
+    }
+  }
+  for (const name of meta.decorators?.request ?? []) {
+    if (!scope.requestDecorations.has(name)) {
+      throw new PluginError(meta.name, `Plugin "${meta.name}" requires request decorator "${name}"`);
+    }
+  }
+}
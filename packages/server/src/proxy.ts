@@ -0,0 +1,232 @@
+// @vura/server — Client address, protocol and host behind reverse proxies
+
+// ─── Types ───
+
+/**
+ * Which proxies to believe:
+ * - `true` trusts every hop and `false` none (the default).
+ * - A number trusts that many hops, counting from the server.
+ * - A string or list trusts addresses in those CIDR ranges; `loopback`, `linklocal` and `uniquelocal` name the usual private ranges.
+ * - A function decides per address, where `hop` 0 is the connecting socket.
+ */
+export type TrustProxy = boolean | number | string | string[] | ((address: string, hop: number) => boolean);
+
+/** What the adapter knows about the connection itself */
+export interface ConnectionInfo {
+  /** The connecting socket's address (for a proxied request, the nearest proxy) */
+  remoteAddress?: string;
+}
+
+export interface ClientInfo {
+  ip: string | undefined;
+  ips: string[];
+  protocol: string;
+  hostname: string;
+}
+
+// ─── Trust ───
+
+const NAMED_RANGES: Record<string, string[]> = {
+  loopback: ['127.0.0.1/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/** Turn a `trustProxy` setting into a predicate over (address, hop) */
+export function compileTrust(trust: TrustProxy | undefined): (address: string, hop: number) => boolean {
+  if (typeof trust === 'function') return trust;
+  if (trust === true) return () => true;
+  if (!trust) return () => false;
+  if (typeof trust === 'number') return (_address, hop) => hop < trust;
+
+  const ranges = (Array.isArray(trust) ? trust : trust.split(','))
+    .map((entry) => entry.trim())
+    .flatMap((entry) => NAMED_RANGES[entry] ?? [entry])
+    .map(parseCidr);
+  return (address) => {
+    const bytes = parseIp(address);
+    return bytes !== null && ranges.some((range) => inRange(bytes, range));
+  };
+}
+
+interface CidrRange {
+  bytes: Uint8Array;
+  prefix: number;
+}
+
+function parseCidr(cidr: string): CidrRange {
+  const [address, prefixText] = cidr.split('/');
+  const bytes = parseIp(address!);
+  if (!bytes) {
+    throw new Error(`Invalid trustProxy address "${cidr}"`);
+  }
+  const bits = bytes.length * 8;
+  // An IPv4-mapped range (`::ffff:10.0.0.0/104`) is matched as IPv4
+  const mapped = bytes.length === 4 && address!.includes(':') ? 96 : 0;
+  const prefix = prefixText === undefined ? bits : Number(prefixText) - mapped;
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    throw new Error(`Invalid trustProxy range "${cidr}"`);
+  }
+  return { bytes, prefix };
+}
+
+function inRange(bytes: Uint8Array, range: CidrRange): boolean {
+  if (bytes.length !== range.bytes.length) return false;
+  for (let bit = 0; bit < range.prefix; bit += 8) {
+    const remaining = range.prefix - bit;
+    const mask = remaining >= 8 ? 0xff : (0xff << (8 - remaining)) & 0xff;
+    if ((bytes[bit / 8]! & mask) !== (range.bytes[bit / 8]! & mask)) return false;
+  }
+  return true;
+}
+
+/** IPv4 → 4 bytes, IPv6 → 16 (IPv4-mapped IPv6 → 4), anything else → null */
+function parseIp(address: string): Uint8Array | null {
+  if (!address.includes(':')) return parseIpv4(address);
+
+  const zone = address.indexOf('%');
+  let text = zone === -1 ? address : address.slice(0, zone);
+  const lastColon = text.lastIndexOf(':');
+  if (text.slice(lastColon + 1).includes('.')) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (!v4) return null;
+    text = `${text.slice(0, lastColon + 1)}${((v4[0]! << 8) | v4[1]!).toString(16)}:${((v4[2]! << 8) | v4[3]!).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part === '' ? [] : part.split(':').map((group) => (/^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN)));
+  const head = parse(halves[0]!);
+  const tail = halves.length === 2 ? parse(halves[1]!) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  if (groups.some(Number.isNaN)) return null;
+
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, i) => {
+    bytes[i * 2] = group >> 8;
+    bytes[i * 2 + 1] = group & 0xff;
+  });
+  const isMapped = bytes.subarray(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return isMapped ? bytes.slice(12) : bytes;
+}
+
+function parseIpv4(address: string): Uint8Array | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return new Uint8Array(parts.map(Number));
+}
+
+// ─── Forwarding Headers ───
+
+interface ForwardedHop {
+  for?: string;
+  proto?: string;
+  host?: string;
+}
+
+/** RFC 7239 `Forwarded`, one entry per proxy, nearest the client first */
+function parseForwarded(header: string): ForwardedHop[] {
+  const hops: ForwardedHop[] = [];
+  // Split on commas and semicolons outside quoted strings
+  for (const element of header.match(/(?:[^,"]|"(?:[^"\\]|\\.)*")+/g) ?? []) {
+    const hop: ForwardedHop = {};
+    for (const pair of element.match(/(?:[^;"]|"(?:[^"\\]|\\.)*")+/g) ?? []) {
+      const eq = pair.indexOf('=');
+      if (eq === -1) continue;
+      const key = pair.slice(0, eq).trim().toLowerCase();
+      let value = pair.slice(eq + 1).trim();
+      if (value.startsWith('"')) value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+      if (key === 'for' || key === 'proto' || key === 'host') hop[key] = value;
+    }
+    hops.push(hop);
+  }
+  return hops;
+}
+
+function splitList(header: string | null): string[] {
+  return header ? header.split(',').map((value) => value.trim()).filter(Boolean) : [];
+}
+
+/** Drop the port (and IPv6 brackets) from a node as proxies write it */
+function stripPort(node: string): string {
+  if (node.startsWith('[')) return node.slice(1, node.indexOf(']'));
+  const colon = node.indexOf(':');
+  return colon !== -1 && colon === node.lastIndexOf(':') ? node.slice(0, colon) : node;
+}
+
+function stripHostPort(host: string): string {
+  if (host.startsWith('[')) return host.slice(1, host.indexOf(']'));
+  return host.split(':')[0]!;
+}
+
+// ─── Resolution ───
+
+/**
+ * Work out the client behind any trusted proxies. Starting from the socket,
+ * each trusted hop hands over to the address it forwarded for; the first
+ * untrusted one is the client. Protocol and host come from the entry the
+ * last trusted proxy wrote. `Forwarded` is used when present, otherwise
+ * `X-Forwarded-For`/`-Proto`/`-Host`. Without a socket address, forwarding
+ * headers are ignored.
+ */
+export function resolveClient(
+  request: Request,
+  url: URL,
+  connection: ConnectionInfo | undefined,
+  trust: (address: string, hop: number) => boolean,
+): ClientInfo {
+  const remote = connection?.remoteAddress;
+  const direct: ClientInfo = {
+    ip: remote,
+    ips: [],
+    protocol: url.protocol.slice(0, -1),
+    hostname: stripHostPort(url.host),
+  };
+  if (remote === undefined || !trust(remote, 0)) return direct;
+
+  const forwarded = request.headers.get('forwarded');
+  let hops: ForwardedHop[];
+  if (forwarded !== null) {
+    hops = parseForwarded(forwarded);
+  } else {
+    const protos = splitList(request.headers.get('x-forwarded-proto'));
+    const hosts = splitList(request.headers.get('x-forwarded-host'));
+    hops = splitList(request.headers.get('x-forwarded-for')).map((address, i, all) => ({
+      for: address,
+      // Proxies usually overwrite these rather than append, so short lists apply to every hop
+      proto: protos[protos.length - all.length + i] ?? protos[0],
+      host: hosts[hosts.length - all.length + i] ?? hosts[0],
+    }));
+  }
+
+  // The chain from the server outwards: socket, then each forwarded address
+  const chain = [remote, ...hops.map((hop) => stripPort(hop.for ?? 'unknown')).reverse()];
+  let hop = 0;
+  while (hop < chain.length - 1 && trust(chain[hop]!, hop)) hop++;
+  if (hop === 0) return direct;
+
+  const entry = hops[hops.length - hop]!;
+  return {
+    ip: chain[hop],
+    ips: chain.slice(1, hop + 1).reverse(),
+    protocol: entry.proto?.toLowerCase() ?? direct.protocol,
+    hostname: entry.host ? stripHostPort(entry.host) : direct.hostname,
+  };
+}
+
+/**
+ * The connection from the second argument runtimes pass to a fetch handler:
+ * Bun's server (`requestIP`) or Deno's handler info (`remoteAddr`).
+ */
+export function fetchConnection(request: Request, context: unknown): ConnectionInfo | undefined {
+  if (typeof context !== 'object' || context === null) return undefined;
+  const { requestIP, remoteAddr } = context as {
+    requestIP?: (request: Request) => { address: string } | null;
+    remoteAddr?: { hostname?: string };
+  };
+  if (typeof requestIP === 'function') return { remoteAddress: requestIP.call(context, request)?.address };
+  if (typeof remoteAddr?.hostname === 'string') return { remoteAddress: remoteAddr.hostname };
+  return undefined;
+}
@@ -0,0 +1,343 @@
+// @vura/server — Rate limiting: algorithms, stores and the rateLimit plugin
+
+import { definePlugin } from './plugin.js';
+import type { VuraRequest } from './types.js';
+
+// ─── Types ───
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  /** Requests allowed per window (token bucket: bucket capacity) */
+  max: number;
+  /** Window length in milliseconds (token bucket: time to refill an empty bucket) */
+  window: number;
+  /** Default `fixed-window` */
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * What a store keeps per key. Fixed window: `value` is the count and `time`
+ * the window start. Sliding window adds the `previous` window's count. Token
+ * bucket: `value` is the tokens left at `time`.
+ */
+export interface RateLimitState {
+  value: number;
+  time: number;
+  previous?: number;
+}
+
+/** The next state for a key, and how long (ms) it matters */
+export interface RateLimitUpdate {
+  state: RateLimitState;
+  ttl: number;
+}
+
+/**
+ * Where counters live. Implement it over Redis, a Durable Object or similar
+ * to share limits between instances. `update` must be atomic per key:
+ * concurrent hits may not both read the same state. A store built on
+ * optimistic transactions (Redis `WATCH`/`MULTI`) may call `fn` again
+ * after a conflict.
+ */
+export interface RateLimitStore {
+  update(key: string, fn: (state: RateLimitState | undefined) => RateLimitUpdate): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the limit fully resets */
+  reset: number;
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+export class RateLimitError extends Error {
+  readonly statusCode = 429;
+  readonly code = 'TOO_MANY_REQUESTS';
+
+  constructor(
+    readonly result: RateLimitResult,
+    readonly headers: Record<string, string> = rateLimitHeaders(result),
+  ) {
+    super('Too Many Requests');
+    this.name = 'RateLimitError';
+  }
+}
+
+// ─── Memory Store ───
+
+/** In-process LRU store; the least recently used keys are dropped past `max` */
+export class MemoryStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expires: number }>();
+  private max: number;
+
+  constructor(options: { max?: number } = {}) {
+    this.max = options.max ?? 10_000;
+  }
+
+  /** Reads and writes without awaiting in between, so no other hit interleaves */
+  async update(key: string, fn: (state: RateLimitState | undefined) => RateLimitUpdate): Promise<void> {
+    const { state, ttl } = fn(this.read(key));
+    this.write(key, state, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private read(key: string): RateLimitState | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.state;
+  }
+
+  private write(key: string, state: RateLimitState, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { state, expires: Date.now() + ttl });
+    while (this.entries.size > this.max) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// ─── Algorithms ───
+
+interface Step {
+  state: RateLimitState;
+  ttl: number;
+  result: RateLimitResult;
+}
+
+function fixedWindow(state: RateLimitState | undefined, now: number, max: number, window: number): Step {
+  const current = state && now < state.time + window ? state : { value: 0, time: now };
+  const allowed = current.value < max;
+  const next = { value: current.value + (allowed ? 1 : 0), time: current.time };
+  const reset = next.time + window - now;
+  return {
+    state: next,
+    ttl: reset,
+    result: { allowed, limit: max, remaining: max - next.value, reset, retryAfter: allowed ? 0 : reset },
+  };
+}
+
+/** Approximates a rolling window by weighting the previous fixed window's count */
+function slidingWindow(state: RateLimitState | undefined, now: number, max: number, window: number): Step {
+  const start = Math.floor(now / window) * window;
+  let value = 0;
+  let previous = 0;
+  if (state?.time === start) {
+    value = state.value;
+    previous = state.previous ?? 0;
+  } else if (state?.time === start - window) {
+    previous = state.value;
+  }
+
+  const elapsed = now - start;
+  const weight = 1 - elapsed / window;
+  const estimate = previous * weight + value;
+  const allowed = estimate + 1 <= max;
+  if (allowed) value += 1;
+
+  const reset = start + window - now;
+  let retryAfter = 0;
+  if (!allowed) {
+    // When the previous window's weight has decayed enough, or else the next window
+    const needed = previous > 0 && value < max ? window * (1 - (max - value - 1) / previous) - elapsed : reset;
+    retryAfter = Math.max(1, Math.min(reset, Math.ceil(needed)));
+  }
+
+  return {
+    state: { value, time: start, previous },
+    ttl: reset + window,
+    result: {
+      allowed,
+      limit: max,
+      remaining: Math.max(0, Math.floor(max - previous * weight - value)),
+      reset,
+      retryAfter,
+    },
+  };
+}
+
+/** Holds up to `max` tokens and refills `max` per `window`, so bursts are allowed */
+function tokenBucket(state: RateLimitState | undefined, now: number, max: number, window: number): Step {
+  const rate = max / window;
+  const tokens = state ? Math.min(max, state.value + (now - state.time) * rate) : max;
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+  const reset = Math.ceil((max - left) / rate);
+  return {
+    state: { value: left, time: now },
+    ttl: reset,
+    result: {
+      allowed,
+      limit: max,
+      remaining: Math.floor(left),
+      reset,
+      retryAfter: allowed ? 0 : Math.ceil((1 - left) / rate),
+    },
+  };
+}
+
+const ALGORITHMS = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
+
+// ─── RateLimiter ───
+
+export interface RateLimiterOptions extends RateLimitRule {
+  /** Default: a MemoryStore */
+  store?: RateLimitStore;
+}
+
+/** Counts hits per key against a rule; shared by the plugin and RPC middleware */
+export class RateLimiter {
+  readonly rule: Required<RateLimitRule>;
+  readonly store: RateLimitStore;
+
+  constructor(options: RateLimiterOptions) {
+    this.rule = checkRule({ max: options.max, window: options.window, algorithm: options.algorithm ?? 'fixed-window' });
+    this.store = options.store ?? new MemoryStore();
+  }
+
+  /** Record a hit for `key`, under `rule` if given, and report whether it is allowed */
+  async consume(key: string, rule?: Partial<RateLimitRule>): Promise<RateLimitResult> {
+    const { max, window, algorithm } = rule ? checkRule({ ...this.rule, ...rule }) : this.rule;
+    let result: RateLimitResult | undefined;
+    await this.store.update(`${algorithm}:${key}`, (state) => {
+      const step = ALGORITHMS[algorithm](state, Date.now(), max, window);
+      result = step.result;
+      return step;
+    });
+    return result!;
+  }
+
+  /** Forget the counters for `key` */
+  async reset(key: string): Promise<void> {
+    await Promise.all(Object.keys(ALGORITHMS).map((algorithm) => this.store.delete(`${algorithm}:${key}`)));
+  }
+}
+
+function checkRule(rule: Required<RateLimitRule>): Required<RateLimitRule> {
+  if (!(rule.max > 0) || !(rule.window > 0)) {
+    throw new Error('Rate limit `max` and `window` must be positive numbers');
+  }
+  if (!(rule.algorithm in ALGORITHMS)) {
+    throw new Error(`Unknown rate limit algorithm "${rule.algorithm}"`);
+  }
+  return rule;
+}
+
+/** `RateLimit-*` headers (IETF draft), plus `Retry-After` when refused; times in seconds */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'ratelimit-limit': String(result.limit),
+    'ratelimit-remaining': String(result.remaining),
+    'ratelimit-reset': String(Math.ceil(result.reset / 1000)),
+  };
+  if (!result.allowed) {
+    headers['retry-after'] = String(Math.ceil(result.retryAfter / 1000));
+  }
+  return headers;
+}
+
+// ─── Plugin ───
+
+export interface RateLimitOptions extends RateLimiterOptions, Record<string, unknown> {
+  /** Key to count against, e.g. `request.ip` (with `trustProxy` behind a proxy), an API key or a user id */
+  keyGenerator: (request: VuraRequest) => string | Promise<string>;
+  /** Return true to let a request through uncounted */
+  skip?: (request: VuraRequest) => boolean | Promise<boolean>;
+  /** Send `RateLimit-*` headers on allowed responses (default true) */
+  headers?: boolean;
+}
+
+/** Without a key, every client would share one counter */
+function requireKeyGenerator<T>(keyGenerator: T | undefined, name: string): T {
+  if (typeof keyGenerator !== 'function') {
+    throw new Error(`${name} needs a \`keyGenerator\`; requests have no safe default key`);
+  }
+  return keyGenerator;
+}
+
+/**
+ * Limit requests to routes in the registering context. Refused requests get
+ * a 429 with `Retry-After` before any other hook runs. A route's
+ * `config.rateLimit` overrides the rule with its own counter, or exempts it.
+ */
+export const rateLimit = definePlugin<RateLimitOptions>(
+  { name: '@vura/rate-limit', encapsulate: false },
+  (app, options) => {
+    const keyGenerator = requireKeyGenerator(options.keyGenerator, 'rateLimit');
+    const limiter = new RateLimiter(options);
+    const results = new WeakMap<VuraRequest, RateLimitResult>();
+
+    app.addHook('onRequest', async (request) => {
+      const override = request.routeOptions.config.rateLimit;
+      if (override === false || (await options.skip?.(request))) return;
+
+      const key = await keyGenerator(request);
+      const result = override
+        ? await limiter.consume(`${key}:${request.routeOptions.method} ${request.routeOptions.url}`, override)
+        : await limiter.consume(key);
+
+      if (!result.allowed) {
+        return new Response(JSON.stringify({ error: 'Too Many Requests', statusCode: 429 }), {
+          status: 429,
+          headers: { ...rateLimitHeaders(result), 'content-type': 'application/json; charset=utf-8' },
+        });
+      }
+      results.set(request, result);
+    });
+
+    if (options.headers !== false) {
+      app.addHook('onSend', (request, reply, response) => {
+        const result = results.get(request);
+        if (!result) return;
+        const headers = new Headers(response.headers);
+        for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+          headers.set(name, value);
+        }
+        return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+      });
+    }
+  },
+);
+
+// ─── RPC ───
+
+export interface RateLimitProcedureOptions extends RateLimiterOptions {
+  /** Key to count against, e.g. a user id from the context */
+  keyGenerator: (ctx: { request: Request; [key: string]: unknown }) => string | Promise<string>;
+}
+
+/**
+ * RPC middleware (`procedure.use(...)`) that throws a RateLimitError — sent
+ * as a 429 with `RateLimit-*` and `Retry-After` headers — once the limit is hit.
+ */
+export function rateLimitProcedure(options: RateLimitProcedureOptions) {
+  const keyGenerator = requireKeyGenerator(options.keyGenerator, 'rateLimitProcedure');
+  const limiter = new RateLimiter(options);
+
+  return async (opts: { ctx: { request: Request; [key: string]: unknown }; next: () => Promise<unknown> }) => {
+    const result = await limiter.consume(await keyGenerator(opts.ctx));
+    if (!result.allowed) {
+      throw new RateLimitError(result);
+    }
+    return opts.next();
+  };
+}
@@ -1,12 +1,107 @@
 // @vura/server — VuraReply implementation
 
-import type { VuraReply } from './types.js';
+import type { VuraReply, ResponseSerializers, FormatHandlers } from './types.js';
+import { ResponseValidationError } from './validation.js';
+import { serializeCookie, signCookie, encryptCookie } from './cookie.js';
+import type { CookieOptions, CookieSecret } from './cookie.js';
+import { prepareFile } from './send-file.js';
+import type { SendFileOptions } from './send-file.js';
+import { createEventStream } from './sse.js';
+import type { SSESource, SSEOptions } from './sse.js';
+import { negotiate } from './negotiation.js';
 
-export function createReply(): VuraReply {
+/** Statuses that must not carry a body (the Response constructor throws) */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+const encoder = new TextEncoder();
+
+/** Values behind Responses built by json()/send(object), for preSerialization hooks */
+const payloads = new WeakMap<Response, { data: unknown }>();
+
+export function serializedPayload(response: Response): { data: unknown } | undefined {
+  return payloads.get(response);
+}
+
+export interface ReplyOptions {
+  /** Route response serializers, looked up by the status at send time */
+  serializers?: ResponseSerializers;
+  /** Throw a ResponseValidationError when data does not match its schema */
+  validateResponses?: boolean;
+  /** Secret(s) for `setSignedCookie` / `setEncryptedCookie` */
+  cookieSecret?: CookieSecret;
+  /** The incoming request, for conditional and range handling in `sendFile` */
+  request?: Request;
+}
+
+export function createReply(options: ReplyOptions = {}): VuraReply {
   let statusCode = 200;
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string | string[]> = {};
   let sent = false;
 
+  const serialize = (data: unknown): string => {
+    const serializer = options.serializers?.get(statusCode);
+    if (!serializer) {
+      return JSON.stringify(data);
+    }
+    if (options.validateResponses || serializer.filterByValidation) {
+      // Serialize the validator's output, which has undeclared fields stripped
+      const result = serializer.schema.validate(data);
+      if (!result.success) {
+        if (!options.validateResponses) {
+          // Mismatches only fail in development; otherwise send the payload as it is
+          return JSON.stringify(data);
+        }
+        throw new ResponseValidationError(statusCode, result.issues ?? []);
+      }
+      return serializer.stringify(result.data);
+    }
+    return serializer.stringify(data);
+  };
+
+  const withBody = <T>(body: T): T | null => (NULL_BODY_STATUSES.has(statusCode) ? null : body);
+
+  /** A body of known size: sets Content-Length so later stages (e.g. compression) can see it */
+  const sized = (body: string | Uint8Array<ArrayBuffer> | ArrayBuffer, contentType: string): Response => {
+    sent = true;
+    if (NULL_BODY_STATUSES.has(statusCode)) {
+      return new Response(null, { status: statusCode, headers: responseHeaders({ 'content-type': contentType }) });
+    }
+    const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+    return new Response(bytes, {
+      status: statusCode,
+      headers: responseHeaders({ 'content-type': contentType, 'content-length': String(bytes.byteLength) }),
+    });
+  };
+
+  /** Add a token to the Vary header once */
+  const vary = (field: string) => {
+    const current = headers['vary'];
+    const fields = (Array.isArray(current) ? current.join(', ') : current ?? '')
+      .split(',')
+      .map((f) => f.trim())
+      .filter(Boolean);
+    if (!fields.some((f) => f === '*' || f.toLowerCase() === field.toLowerCase())) {
+      fields.push(field);
+    }
+    headers['vary'] = fields.join(', ');
+  };
+
+  /** Response headers: the given defaults, overridden by reply headers (multi-value aware) */
+  const responseHeaders = (defaults: Record<string, string>): Headers => {
+    const result = new Headers(defaults);
+    for (const [key, value] of Object.entries(headers)) {
+      if (Array.isArray(value)) {
+        result.delete(key);
+        for (const item of value) {
+          result.append(key, item);
+        }
+      } else {
+        result.set(key, value);
+      }
+    }
+    return result;
+  };
+
   const reply: VuraReply = {
     get statusCode() {
       return statusCode;
@@ -31,64 +126,104 @@ export function createReply(): VuraReply {
       return reply;
     },
 
-    header(key: string, value: string) {
+    header(key: string, value: string | string[]) {
       headers[key.toLowerCase()] = value;
       return reply;
     },
 
+    setCookie(name: string, value: string, cookieOptions?: CookieOptions) {
+      const cookie = serializeCookie(name, value, cookieOptions);
+      const existing = headers['set-cookie'];
+      headers['set-cookie'] = existing === undefined ? [cookie] : [...[existing].flat(), cookie];
+      return reply;
+    },
+
+    async setSignedCookie(name: string, value: string, cookieOptions?: CookieOptions) {
+      return reply.setCookie(name, await signCookie(value, options.cookieSecret), cookieOptions);
+    },
+
+    async setEncryptedCookie(name: string, value: string, cookieOptions?: CookieOptions) {
+      return reply.setCookie(name, await encryptCookie(value, options.cookieSecret), cookieOptions);
+    },
+
+    clearCookie(name: string, cookieOptions?: CookieOptions) {
+      return reply.setCookie(name, '', { ...cookieOptions, maxAge: 0, expires: new Date(0) });
+    },
+
     send(data: unknown): Response {
-      sent = true;
       if (data instanceof Response) {
+        sent = true;
         return data;
       }
       if (typeof data === 'string') {
-        return new Response(data, {
-          status: statusCode,
-          headers: {
-            'content-type': 'text/plain; charset=utf-8',
-            ...headers,
-          },
-        });
+        return sized(data, 'text/plain; charset=utf-8');
       }
-      return new Response(JSON.stringify(data), {
-        status: statusCode,
-        headers: {
-          'content-type': 'application/json; charset=utf-8',
-          ...headers,
-        },
-      });
+      if (data instanceof Uint8Array || data instanceof ArrayBuffer) {
+        return sized(data as Uint8Array<ArrayBuffer> | ArrayBuffer, 'application/octet-stream');
+      }
+      if (data instanceof ReadableStream) {
+        return reply.stream(data);
+      }
+      if (isAsyncIterable(data)) {
+        return reply.stream(iterableStream(data));
+      }
+      return reply.json(data);
     },
 
     html(content: string): Response {
+      return sized(content, 'text/html; charset=utf-8');
+    },
+
+    json(data: unknown): Response {
+      // JSON.stringify(undefined) is undefined: send an empty body
+      const response = sized(serialize(data) ?? '', 'application/json; charset=utf-8');
+      payloads.set(response, { data });
+      return response;
+    },
+
+    stream(readable: ReadableStream): Response {
       sent = true;
-      return new Response(content, {
+      return new Response(withBody(readable), {
         status: statusCode,
-        headers: {
-          'content-type': 'text/html; charset=utf-8',
-          ...headers,
-        },
+        headers: responseHeaders({ 'content-type': 'application/octet-stream' }),
       });
     },
 
-    json(data: unknown): Response {
+    format(handlers: FormatHandlers): Response | Promise<Response> {
+      vary('Accept');
+      const types = Object.keys(handlers).filter((key) => key !== 'default');
+      const type = negotiate(options.request?.headers.get('accept'), types, 'type')[0];
+
+      if (type === undefined) {
+        if (handlers.default) return handlers.default();
+        return reply.status(406).send('Not Acceptable');
+      }
+      if (!('content-type' in headers)) {
+        reply.header('content-type', type.startsWith('text/') ? `${type}; charset=utf-8` : type);
+      }
+      return handlers[type]!();
+    },
+
+    sse(source: SSESource, sseOptions?: SSEOptions): Response {
       sent = true;
-      return new Response(JSON.stringify(data), {
+      return new Response(createEventStream(source, sseOptions, options.request), {
         status: statusCode,
-        headers: {
-          'content-type': 'application/json; charset=utf-8',
-          ...headers,
-        },
+        headers: responseHeaders({
+          'content-type': 'text/event-stream; charset=utf-8',
+          'cache-control': 'no-cache',
+          // Stop nginx from buffering the stream
+          'x-accel-buffering': 'no',
+        }),
       });
     },
 
-    stream(readable: ReadableStream): Response {
+    async sendFile(path: string, fileOptions: SendFileOptions = {}): Promise<Response> {
+      const file = await prepareFile(path, fileOptions, options.request);
+      const status = file.status ?? statusCode;
       sent = true;
-      return new Response(readable, {
-        status: statusCode,
-        headers: {
-          'content-type': 'application/octet-stream',
-          ...headers,
-        },
+      return new Response(NULL_BODY_STATUSES.has(status) ? null : file.body, {
+        status,
+        headers: responseHeaders(file.headers),
       });
     },
 
@@ -96,13 +231,42 @@ export function createReply(): VuraReply {
       sent = true;
       return new Response(null, {
         status: code,
-        headers: {
-          location: url,
-          ...headers,
-        },
+        headers: responseHeaders({ location: url }),
       });
     },
   };
 
   return reply;
 }
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return value != null && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+}
+
+/** Pull chunks from an async iterable on demand; strings are UTF-8 encoded */
+function iterableStream(iterable: AsyncIterable<unknown>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else if (typeof value === 'string') {
+          controller.enqueue(encoder.encode(value));
+        } else if (value instanceof Uint8Array) {
+          controller.enqueue(value);
+        } else {
+          throw new TypeError('Async iterable responses must yield strings or Uint8Arrays');
+        }
+      } catch (error) {
+        await iterator.return?.();
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
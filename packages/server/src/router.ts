@@ -1,34 +1,258 @@
 // @vura/server — Radix tree router with URL pattern matching
 
-import type { RouteMethod, InternalRoute, RouteMatch, RouteHandler, RouteHooks } from './types.js';
+import type {
+  RouteMethod,
+  InternalRoute,
+  RouteMatch,
+  RouteHandler,
+  RouteHooks,
+  ConstraintStrategy,
+} from './types.js';
+import { HOOK_NAMES } from './hooks.js';
+import { hostConstraint, versionConstraint } from './constraints.js';
+
+/** Registration-time data carried onto the InternalRoute as-is */
+export type RouteExtras = Partial<Omit<InternalRoute, 'method' | 'url' | 'handler' | 'kind' | 'schema' | 'hooks'>>;
 
 interface RadixNode {
   segment: string;
   children: Map<string, RadixNode>;
+  /** Regex-constrained or multi-param children (e.g., :id(\\d+), :from-:to), tried in registration order */
+  patternChildren: PatternChild[];
   /** Parameter child (e.g., :id) */
   paramChild: RadixNode | null;
   paramName: string | null;
+  /** URL of the route that introduced paramName (for diagnostics) */
+  paramSource: string | null;
   /** Wildcard/catch-all child (e.g., *path) */
   wildcardChild: RadixNode | null;
   wildcardName: string | null;
-  /** Route handlers by method */
-  routes: Map<RouteMethod, InternalRoute>;
+  wildcardSource: string | null;
+  /** Route handlers by method, most specific constraints first */
+  routes: Map<RouteMethod, InternalRoute[]>;
+}
+
+type Deriver = (strategy: ConstraintStrategy) => string | undefined;
+
+/** A matched route plus the values its constraints captured */
+interface Selection {
+  route: InternalRoute;
+  captures: Record<string, string>;
+}
+
+interface PatternChild {
+  /** Regex source, without param names — segments that match alike share a node */
+  source: string;
+  /** URL of the route that introduced the child (for diagnostics) */
+  url: string;
+  /** Anchored; parameter i is captured by the group named `p<i>` */
+  regex: RegExp;
+  names: string[];
+  node: RadixNode;
 }
 
 function createNode(segment = ''): RadixNode {
   return {
     segment,
     children: new Map(),
+    patternChildren: [],
     paramChild: null,
     paramName: null,
+    paramSource: null,
     wildcardChild: null,
     wildcardName: null,
+    wildcardSource: null,
     routes: new Map(),
   };
 }
 
+/**
+ * Fill in missing hook lists without reading the ones given — callers may
+ * pass getters that resolve hooks lazily.
+ */
+function withDefaultHooks(hooks: Partial<RouteHooks> = {}): RouteHooks {
+  for (const name of HOOK_NAMES) {
+    if (!(name in hooks)) {
+      (hooks as Record<string, unknown>)[name] = [];
+    }
+  }
+  return hooks as RouteHooks;
+}
+
+// ─── Segment Parsing ───
+
+type SegmentToken =
+  | { type: 'static'; value: string }
+  | { type: 'param'; name: string; optional: boolean }
+  | { type: 'pattern'; regex: RegExp; names: string[]; optional: boolean }
+  | { type: 'wildcard'; name: string };
+
+const PARAM_NAME = /^\w+/;
+
+/**
+ * Parse one path segment. Supported forms: `users`, `:id`, `:id(\\d+)`,
+ * `:page?`, `:from-:to`, `:name.:ext`, `*path`. `::` is a literal colon.
+ */
+function parseSegment(seg: string): SegmentToken {
+  if (seg.startsWith('*')) {
+    return { type: 'wildcard', name: seg.slice(1) || 'wild' };
+  }
+  if (/^:\w+\??$/.test(seg)) {
+    const optional = seg.endsWith('?');
+    return { type: 'param', name: seg.slice(1, optional ? -1 : undefined), optional };
+  }
+
+  let source = '^';
+  let literal = '';
+  let optional = false;
+  const names: string[] = [];
+
+  let i = 0;
+  while (i < seg.length) {
+    if (seg[i] === ':' && seg[i + 1] === ':') {
+      source += '\\:';
+      literal += ':';
+      i += 2;
+      continue;
+    }
+    if (seg[i] !== ':') {
+      source += escapeRegex(seg[i]!);
+      literal += seg[i];
+      i += 1;
+      continue;
+    }
+
+    const name = PARAM_NAME.exec(seg.slice(i + 1))?.[0];
+    if (!name) {
+      throw new Error(`Invalid parameter in route segment "${seg}"`);
+    }
+    i += 1 + name.length;
+
+    let pattern = '[^/]+';
+    if (seg[i] === '(') {
+      const end = findClosingParen(seg, i);
+      pattern = seg.slice(i + 1, end);
+      i = end + 1;
+    }
+    if (seg[i] === '?') {
+      // Only a lone parameter (`:page?`, `:id(\\d+)?`) may be optional
+      if (names.length > 0 || source !== '^' || i !== seg.length - 1) {
+        throw new Error(`Optional parameter ":${name}" must be the whole segment in "${seg}"`);
+      }
+      optional = true;
+      i += 1;
+    }
+
+    source += `(?<p${names.length}>${pattern})`;
+    names.push(name);
+  }
+
+  if (names.length === 0) {
+    return { type: 'static', value: literal };
+  }
+  return { type: 'pattern', regex: new RegExp(`${source}$`), names, optional };
+}
+
+/** Segments of every shape; a pattern matching all of them matches any segment */
+const SEGMENT_PROBES = ['0', '42', 'a', 'Z', 'a-b_c.d', '1.5', '%20', '~', 'é', 'x'.repeat(64)];
+
+/** Whether a pattern child would take every segment, leaving later siblings unreachable at this position */
+function matchesAnySegment(regex: RegExp): boolean {
+  return SEGMENT_PROBES.every((probe) => regex.test(probe));
+}
+
+function findClosingParen(seg: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < seg.length; i++) {
+    if (seg[i] === '\\') {
+      i += 1;
+    } else if (seg[i] === '(') {
+      depth += 1;
+    } else if (seg[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  throw new Error(`Unclosed regex in route segment "${seg}"`);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function safeDecode(value: string): string {
+  if (!value.includes('%')) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// ─── Diagnostics ───
+
+/** Thrown when two routes would answer the same method and path */
+export class RouteConflictError extends Error {
+  constructor(
+    readonly route: InternalRoute,
+    readonly existing: InternalRoute,
+  ) {
+    super(
+      `Route "${route.method} ${route.url}" conflicts with "${existing.method} ${existing.url}": both match the same requests`,
+    );
+    this.name = 'RouteConflictError';
+  }
+}
+
+export interface RouterOptions {
+  /** Receives non-fatal registration diagnostics (default: console.warn) */
+  onWarning?: (message: string) => void;
+}
+
+/** Stable key for a route's constraints — equal keys mean the routes overlap */
+function constraintKey(route: InternalRoute): string {
+  const entries = Object.entries(route.constraints ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.map(([name, value]) => `${name}=${String(value)}`).join('&');
+}
+
+function constraintCount(route: InternalRoute): number {
+  return Object.values(route.constraints ?? {}).filter((value) => value !== undefined).length;
+}
+
+// ─── Router ───
+
+/** Canonical order for the `Allow` header */
+const METHOD_ORDER: readonly RouteMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
 export class Router {
   private root = createNode();
+  /** Every method with at least one route */
+  private methods = new Set<RouteMethod>();
+  private warn: (message: string) => void;
+  private strategies = new Map<string, ConstraintStrategy>([
+    [hostConstraint.name, hostConstraint],
+    [versionConstraint.name, versionConstraint],
+  ]);
+  /** Strategies referenced by at least one route — only these are checked */
+  private activeStrategies = new Set<ConstraintStrategy>();
+
+  constructor(options: RouterOptions = {}) {
+    this.warn = options.onWarning ?? ((message) => console.warn(`[vura] ${message}`));
+  }
+
+  /** Register a custom constraint strategy (or replace `host` / `version`) */
+  addConstraintStrategy(strategy: ConstraintStrategy): void {
+    const existing = this.strategies.get(strategy.name);
+    if (existing && this.activeStrategies.has(existing)) {
+      throw new Error(`Constraint strategy "${strategy.name}" is already used by registered routes`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  hasConstraintStrategy(name: string): boolean {
+    return this.strategies.has(name);
+  }
 
   addRoute(
     method: RouteMethod,
@@ -37,36 +261,95 @@ export class Router {
     kind: 'serverless' | 'hot' | 'task' = 'serverless',
     schema?: InternalRoute['schema'],
     hooks?: Partial<RouteHooks>,
+    extras: RouteExtras = {},
   ): void {
+    const used = this.resolveConstraints(method, url, extras.constraints);
+
     const segments = this.splitPath(url);
     let node = this.root;
+    // Nodes the route is stored on — more than one when it ends in an optional param
+    const terminals: RadixNode[] = [];
+    // Reported once the route is known not to conflict, so a duplicate only throws
+    const warnings: string[] = [];
 
-    for (const seg of segments) {
-      if (seg.startsWith(':')) {
+    for (let i = 0; i < segments.length; i++) {
+      const seg = segments[i]!;
+      const token = parseSegment(seg);
+
+      if ((token.type === 'param' || token.type === 'pattern') && token.optional) {
+        if (i !== segments.length - 1) {
+          throw new Error(`Optional parameter must be the last segment in "${url}"`);
+        }
+        terminals.push(node);
+      }
+
+      if (token.type === 'param') {
         // Parameter segment
         if (!node.paramChild) {
           node.paramChild = createNode(seg);
-          node.paramName = seg.slice(1);
+          node.paramName = token.name;
+          node.paramSource = url;
+        } else if (node.paramName !== token.name) {
+          warnings.push(
+            `Route "${method} ${url}" names parameter ":${token.name}" where "${node.paramSource}" ` +
+              `uses ":${node.paramName}"; requests will receive params.${node.paramName}`,
+          );
         }
         node = node.paramChild;
-      } else if (seg.startsWith('*')) {
-        // Wildcard/catch-all
+      } else if (token.type === 'pattern') {
+        // Constrained or multi-param segment; `:id(\\d+)` and `:uid(\\d+)` are the same segment
+        const source = token.regex.source;
+        let child = node.patternChildren.find((c) => c.source === source);
+        if (!child) {
+          // Patterns are tried in registration order, so an earlier catch-all takes this segment first
+          const broad = node.patternChildren.find((c) => matchesAnySegment(c.regex));
+          if (broad) {
+            warnings.push(
+              `Route "${method} ${url}" is shadowed by "${broad.url}", whose pattern matches any segment ` +
+                `and is tried first; it is only reached when that route's branch does not match the rest of the path`,
+            );
+          }
+          child = { source, url, regex: token.regex, names: token.names, node: createNode(seg) };
+          node.patternChildren.push(child);
+        } else if (child.names.join() !== token.names.join()) {
+          const theirs = child.names.map((name) => `:${name}`).join(', ');
+          warnings.push(
+            `Route "${method} ${url}" names parameters ${token.names.map((name) => `:${name}`).join(', ')} ` +
+              `where "${child.url}" uses ${theirs}; requests will receive those names`,
+          );
+        }
+        node = child.node;
+      } else if (token.type === 'wildcard') {
+        // Wildcard/catch-all. It is tried last at its level, so it never shadows
+        // sibling routes whatever the registration order; the only routes it
+        // makes unreachable are segments after it, which are rejected here
+        if (i !== segments.length - 1) {
+          throw new Error(
+            `Wildcard "${seg}" must be the last segment in "${url}"; the segments after it can never match`,
+          );
+        }
         if (!node.wildcardChild) {
           node.wildcardChild = createNode(seg);
-          node.wildcardName = seg.slice(1) || 'wild';
+          node.wildcardName = token.name;
+          node.wildcardSource = url;
+        } else if (node.wildcardName !== token.name) {
+          warnings.push(
+            `Route "${method} ${url}" names wildcard "*${token.name}" where "${node.wildcardSource}" ` +
+              `uses "*${node.wildcardName}"; requests will receive params.${node.wildcardName}`,
+          );
         }
         node = node.wildcardChild;
-        break; // Wildcard consumes everything
       } else {
         // Static segment
-        let child = node.children.get(seg);
+        let child = node.children.get(token.value);
         if (!child) {
-          child = createNode(seg);
-          node.children.set(seg, child);
+          child = createNode(token.value);
+          node.children.set(token.value, child);
         }
         node = child;
       }
     }
+    terminals.push(node);
 
     const route: InternalRoute = {
       method,
@@ -74,42 +357,82 @@ export class Router {
       handler,
       kind,
       schema,
-      hooks: {
-        onRequest: hooks?.onRequest ?? [],
-        preHandler: hooks?.preHandler ?? [],
-        preSerialization: hooks?.preSerialization ?? [],
-      },
+      ...extras,
+      hooks: withDefaultHooks(hooks),
     };
 
-    node.routes.set(method, route);
+    const key = constraintKey(route);
+    for (const terminal of terminals) {
+      const existing = terminal.routes.get(method)?.find((other) => constraintKey(other) === key);
+      if (existing) {
+        throw new RouteConflictError(route, existing);
+      }
+    }
+    for (const terminal of terminals) {
+      const routes = terminal.routes.get(method) ?? [];
+      routes.push(route);
+      routes.sort((a, b) => this.compareConstraints(a, b));
+      terminal.routes.set(method, routes);
+    }
+    for (const strategy of used) {
+      this.activeStrategies.add(strategy);
+    }
+    this.methods.add(method);
+    warnings.forEach((message) => this.warn(message));
   }
 
-  match(method: RouteMethod, pathname: string): RouteMatch | null {
+  /**
+   * Find the route for `method` and `pathname`. Pass the request to check
+   * route constraints; without one, constrained routes never match.
+   */
+  match(method: RouteMethod, pathname: string, request?: Request): RouteMatch | null {
     const segments = this.splitPath(pathname);
     const params: Record<string, string> = {};
 
-    const result = this.matchNode(this.root, segments, 0, params);
+    const result = this.matchNode(this.root, segments, 0, params, method, this.deriver(request));
     if (!result) return null;
 
-    const route = result.routes.get(method);
-    if (!route) return null;
-
     return {
-      handler: route.handler,
+      handler: result.route.handler,
       params: { ...params },
-      route,
+      route: result.route,
+      captures: result.captures,
     };
   }
 
+  /**
+   * Methods that have a route matching `pathname`, in canonical order.
+   * HEAD is implied by GET. Empty when no route matches the path at all.
+   */
+  allowedMethods(pathname: string, request?: Request): RouteMethod[] {
+    const allowed = new Set<RouteMethod>();
+    for (const method of this.methods) {
+      if (this.match(method, pathname, request)) {
+        allowed.add(method);
+      }
+    }
+    if (allowed.has('GET')) {
+      allowed.add('HEAD');
+    }
+    return METHOD_ORDER.filter((method) => allowed.has(method));
+  }
+
+  /**
+   * Depth-first match with backtracking. Priority at each level is fixed:
+   * static → pattern children (registration order) → plain param → wildcard.
+   * Param values are URL-decoded.
+   */
   private matchNode(
     node: RadixNode,
     segments: string[],
     index: number,
     params: Record<string, string>,
-  ): RadixNode | null {
-    // All segments consumed — check this node has routes
+    method: RouteMethod,
+    derive: Deriver,
+  ): Selection | null {
+    // All segments consumed — check this node handles the method, else backtrack
     if (index >= segments.length) {
-      return node.routes.size > 0 ? node : null;
+      return this.selectRoute(node, method, derive);
     }
 
     const seg = segments[index]!;
@@ -117,45 +440,138 @@ export class Router {
     // 1. Try static match first (highest priority)
     const staticChild = node.children.get(seg);
     if (staticChild) {
-      const result = this.matchNode(staticChild, segments, index + 1, params);
+      const result = this.matchNode(staticChild, segments, index + 1, params, method, derive);
       if (result) return result;
     }
 
-    // 2. Try parameter match
+    // 2. Try constrained / multi-param patterns
+    for (const child of node.patternChildren) {
+      const groups = child.regex.exec(safeDecode(seg))?.groups;
+      if (!groups) continue;
+
+      child.names.forEach((name, i) => {
+        params[name] = groups[`p${i}`]!;
+      });
+      const result = this.matchNode(child.node, segments, index + 1, params, method, derive);
+      if (result) return result;
+      for (const name of child.names) {
+        delete params[name];
+      }
+    }
+
+    // 3. Try parameter match
     if (node.paramChild && node.paramName) {
-      params[node.paramName] = seg;
-      const result = this.matchNode(node.paramChild, segments, index + 1, params);
+      params[node.paramName] = safeDecode(seg);
+      const result = this.matchNode(node.paramChild, segments, index + 1, params, method, derive);
       if (result) return result;
       delete params[node.paramName];
     }
 
-    // 3. Try wildcard match (lowest priority, consumes rest)
+    // 4. Try wildcard match (lowest priority, consumes rest)
     if (node.wildcardChild && node.wildcardName) {
-      params[node.wildcardName] = segments.slice(index).join('/');
-      return node.wildcardChild;
+      const result = this.selectRoute(node.wildcardChild, method, derive);
+      if (result) {
+        params[node.wildcardName] = safeDecode(segments.slice(index).join('/'));
+        return result;
+      }
+    }
+
+    return null;
+  }
+
+  // ─── Constraints ───
+
+  /** Validate a route's constraints; returns the strategies they reference */
+  private resolveConstraints(
+    method: RouteMethod,
+    url: string,
+    constraints: InternalRoute['constraints'],
+  ): ConstraintStrategy[] {
+    const used: ConstraintStrategy[] = [];
+    for (const [name, value] of Object.entries(constraints ?? {})) {
+      if (value === undefined) continue;
+      const strategy = this.strategies.get(name);
+      if (!strategy) {
+        throw new Error(`Route "${method} ${url}" uses unknown constraint "${name}"`);
+      }
+      strategy.validate?.(value);
+      used.push(strategy);
+    }
+    return used;
+  }
+
+  /** More constraints first, then each strategy's own order (e.g. highest version) */
+  private compareConstraints(a: InternalRoute, b: InternalRoute): number {
+    const byCount = constraintCount(b) - constraintCount(a);
+    if (byCount !== 0) return byCount;
+
+    for (const strategy of this.strategies.values()) {
+      const left = a.constraints?.[strategy.name];
+      const right = b.constraints?.[strategy.name];
+      if (left === undefined || right === undefined || !strategy.compare) continue;
+      const order = strategy.compare(left, right);
+      if (order !== 0) return order;
     }
+    return 0;
+  }
 
+  /** Derive each strategy's request value at most once per match */
+  private deriver(request: Request | undefined): Deriver {
+    const cache = new Map<ConstraintStrategy, string | undefined>();
+    return (strategy) => {
+      if (!cache.has(strategy)) {
+        cache.set(strategy, request ? strategy.deriveConstraint(request) : undefined);
+      }
+      return cache.get(strategy);
+    };
+  }
+
+  private selectRoute(node: RadixNode, method: RouteMethod, derive: Deriver): Selection | null {
+    for (const route of node.routes.get(method) ?? []) {
+      const captures = this.matchConstraints(route, derive);
+      if (captures) return { route, captures };
+    }
     return null;
   }
 
+  private matchConstraints(route: InternalRoute, derive: Deriver): Record<string, string> | null {
+    const captures: Record<string, string> = {};
+    for (const strategy of this.activeStrategies) {
+      const value = route.constraints?.[strategy.name];
+      if (value === undefined) {
+        if (strategy.mustMatchWhenDerived && derive(strategy) !== undefined) return null;
+        continue;
+      }
+      const result = strategy.match(value, derive(strategy));
+      if (!result) return null;
+      if (typeof result === 'object') Object.assign(captures, result);
+    }
+    return captures;
+  }
+
   private splitPath(path: string): string[] {
     return path.split('/').filter(Boolean);
   }
 
   /** Get all registered routes (for manifest generation) */
   getAllRoutes(): InternalRoute[] {
-    const routes: InternalRoute[] = [];
+    const routes = new Set<InternalRoute>();
     this.collectRoutes(this.root, routes);
-    return routes;
+    return [...routes];
   }
 
-  private collectRoutes(node: RadixNode, routes: InternalRoute[]): void {
-    for (const route of node.routes.values()) {
-      routes.push(route);
+  private collectRoutes(node: RadixNode, routes: Set<InternalRoute>): void {
+    for (const list of node.routes.values()) {
+      for (const route of list) {
+        routes.add(route);
+      }
     }
     for (const child of node.children.values()) {
       this.collectRoutes(child, routes);
     }
+    for (const child of node.patternChildren) {
+      this.collectRoutes(child.node, routes);
+    }
     if (node.paramChild) {
       this.collectRoutes(node.paramChild, routes);
     }
@@ -0,0 +1,209 @@
+// @vura/server — Security headers plugin: CSP with per-request nonces, HSTS and friends
+
+import { definePlugin } from './plugin.js';
+import type { HookHandler, VuraRequest } from './types.js';
+
+// ─── Types ───
+
+/**
+ * CSP directives by name, e.g. `{ 'img-src': ["'self'", 'data:'] }`. `true`
+ * sends a directive without a value (`upgrade-insecure-requests`); `false`
+ * removes one inherited from the defaults or an outer policy.
+ */
+export type CspDirectives = Record<string, string[] | boolean>;
+
+export interface ContentSecurityPolicyOptions {
+  /** Merged over the defaults (or the outer policy) directive by directive */
+  directives?: CspDirectives;
+  /** Send `Content-Security-Policy-Report-Only` instead, to trial a policy */
+  reportOnly?: boolean;
+}
+
+export interface StrictTransportSecurityOptions {
+  /** Seconds (default 15552000, 180 days) */
+  maxAge?: number;
+  /** Default true */
+  includeSubDomains?: boolean;
+  preload?: boolean;
+}
+
+/** Each header can be turned off with `false` */
+export interface SecurityHeadersOptions extends Record<string, unknown> {
+  contentSecurityPolicy?: ContentSecurityPolicyOptions | false;
+  strictTransportSecurity?: StrictTransportSecurityOptions | false;
+  /** `X-Content-Type-Options: nosniff` (default true) */
+  contentTypeOptions?: boolean;
+  /** Default `no-referrer` */
+  referrerPolicy?: string | false;
+  /** Default `same-origin` */
+  crossOriginOpenerPolicy?: 'same-origin' | 'same-origin-allow-popups' | 'unsafe-none' | false;
+  /** Default `require-corp`; cross-origin images and scripts then need CORS or CORP headers */
+  crossOriginEmbedderPolicy?: 'require-corp' | 'credentialless' | 'unsafe-none' | false;
+  /**
+   * Allowlists by feature, merged over the defaults: `[]` disables a feature,
+   * `['self']` allows the page's origin, URLs allow those origins.
+   */
+  permissionsPolicy?: Record<string, string[]> | false;
+}
+
+const DEFAULTS: SecurityHeadersOptions = {
+  contentSecurityPolicy: {
+    directives: {
+      'default-src': ["'self'"],
+      'base-uri': ["'self'"],
+      'font-src': ["'self'", 'https:', 'data:'],
+      'form-action': ["'self'"],
+      'frame-ancestors': ["'self'"],
+      'img-src': ["'self'", 'data:'],
+      'object-src': ["'none'"],
+      'script-src': ["'self'"],
+      'script-src-attr': ["'none'"],
+      'style-src': ["'self'"],
+      'upgrade-insecure-requests': true,
+    },
+  },
+  strictTransportSecurity: { maxAge: 15_552_000, includeSubDomains: true },
+  contentTypeOptions: true,
+  referrerPolicy: 'no-referrer',
+  crossOriginOpenerPolicy: 'same-origin',
+  crossOriginEmbedderPolicy: 'require-corp',
+  permissionsPolicy: { camera: [], microphone: [], geolocation: [], payment: [] },
+};
+
+/** Directives that get the request's nonce */
+const NONCE_DIRECTIVES = ['script-src', 'style-src'];
+
+// ─── Policies ───
+
+/**
+ * Layer `override` over `base`: headers are replaced, except that CSP
+ * directives, HSTS settings and Permissions-Policy features merge one by one.
+ */
+function mergePolicy(base: SecurityHeadersOptions, override: SecurityHeadersOptions): SecurityHeadersOptions {
+  const merged: SecurityHeadersOptions = { ...base, ...override };
+  const { contentSecurityPolicy: csp, strictTransportSecurity: hsts, permissionsPolicy } = override;
+
+  if (csp && base.contentSecurityPolicy) {
+    merged.contentSecurityPolicy = {
+      ...base.contentSecurityPolicy,
+      ...csp,
+      directives: { ...base.contentSecurityPolicy.directives, ...csp.directives },
+    };
+  }
+  if (hsts && base.strictTransportSecurity) {
+    merged.strictTransportSecurity = { ...base.strictTransportSecurity, ...hsts };
+  }
+  if (permissionsPolicy && base.permissionsPolicy) {
+    merged.permissionsPolicy = { ...base.permissionsPolicy, ...permissionsPolicy };
+  }
+  return merged;
+}
+
+function serializeCsp(directives: CspDirectives, nonce: string): string {
+  const parts: string[] = [];
+  for (const [name, value] of Object.entries(directives)) {
+    if (value === false) continue;
+    if (value === true) {
+      parts.push(name);
+      continue;
+    }
+    const sources = NONCE_DIRECTIVES.includes(name) ? [...value, `'nonce-${nonce}'`] : value;
+    parts.push(sources.length > 0 ? `${name} ${sources.join(' ')}` : name);
+  }
+  return parts.join('; ');
+}
+
+function serializePermissions(features: Record<string, string[]>): string {
+  return Object.entries(features)
+    .map(([feature, allowlist]) => {
+      const origins = allowlist.map((origin) => (origin === 'self' || origin === '*' ? origin : `"${origin}"`));
+      return `${feature}=(${origins.join(' ')})`;
+    })
+    .join(', ');
+}
+
+/** The headers a policy sends, by lower-case name */
+function policyHeaders(policy: SecurityHeadersOptions, nonce: string): [string, string][] {
+  const headers: [string, string][] = [];
+  const { contentSecurityPolicy: csp, strictTransportSecurity: hsts } = policy;
+
+  if (csp) {
+    const name = csp.reportOnly ? 'content-security-policy-report-only' : 'content-security-policy';
+    headers.push([name, serializeCsp(csp.directives ?? {}, nonce)]);
+  }
+  if (hsts) {
+    let value = `max-age=${hsts.maxAge ?? 15_552_000}`;
+    if (hsts.includeSubDomains !== false) value += '; includeSubDomains';
+    if (hsts.preload) value += '; preload';
+    headers.push(['strict-transport-security', value]);
+  }
+  if (policy.contentTypeOptions) headers.push(['x-content-type-options', 'nosniff']);
+  if (policy.referrerPolicy) headers.push(['referrer-policy', policy.referrerPolicy]);
+  if (policy.crossOriginOpenerPolicy) headers.push(['cross-origin-opener-policy', policy.crossOriginOpenerPolicy]);
+  if (policy.crossOriginEmbedderPolicy) {
+    headers.push(['cross-origin-embedder-policy', policy.crossOriginEmbedderPolicy]);
+  }
+  if (policy.permissionsPolicy) headers.push(['permissions-policy', serializePermissions(policy.permissionsPolicy)]);
+  return headers;
+}
+
+/** 128 random bits, base64 — what CSP3 recommends for nonces */
+function newNonce(): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+// ─── Plugin ───
+
+/** Overrides added by `securityPolicy` hooks, outermost scope first */
+const scopeOverrides = new WeakMap<VuraRequest, SecurityHeadersOptions[]>();
+
+/**
+ * Add security headers to route responses in the registering context and
+ * give each request a CSP nonce (`request.cspNonce`), which is added to
+ * `script-src` and `style-src`. Headers the route already set are kept.
+ * A route's `config.securityHeaders` overrides the policy, or `false`
+ * sends none.
+ */
+export const securityHeaders = definePlugin<SecurityHeadersOptions>(
+  { name: '@vura/security-headers', encapsulate: false },
+  (app, options) => {
+    const base = mergePolicy(DEFAULTS, options);
+
+    app.addHook('onRequest', (request) => {
+      request.cspNonce = newNonce();
+    });
+
+    app.addHook('onSend', (request, reply, response) => {
+      const config = request.routeOptions.config.securityHeaders;
+      if (config === false) return;
+
+      let policy = base;
+      for (const override of scopeOverrides.get(request) ?? []) {
+        policy = mergePolicy(policy, override);
+      }
+      if (config) policy = mergePolicy(policy, config);
+
+      const headers = new Headers(response.headers);
+      // A hook that replied before ours ran in onRequest leaves the request without one
+      request.cspNonce ??= newNonce();
+      for (const [name, value] of policyHeaders(policy, request.cspNonce)) {
+        if (!headers.has(name)) headers.set(name, value);
+      }
+      return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    });
+  },
+);
+
+/**
+ * An `onRequest` hook that overrides the `securityHeaders` policy for routes
+ * in a `register` scope. Nested scopes layer their overrides in order.
+ *
+ *   scope.addHook('onRequest', securityPolicy({ crossOriginEmbedderPolicy: false }));
+ */
+export function securityPolicy(overrides: SecurityHeadersOptions): HookHandler {
+  return (request) => {
+    const list = scopeOverrides.get(request) ?? [];
+    list.push(overrides);
+    scopeOverrides.set(request, list);
+  };
+}
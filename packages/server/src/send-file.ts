@@ -0,0 +1,323 @@
+// @vura/server — reply.sendFile: streaming, conditional GET and byte ranges (Node file system)
+
+import type { FileHandle } from 'node:fs/promises';
+
+export interface SendFileOptions {
+  /** Resolve `path` inside this directory and refuse paths that escape it */
+  root?: string;
+  /** Cache-Control max-age in seconds (default 0) */
+  maxAge?: number;
+  /** Add `immutable` to Cache-Control (for fingerprinted assets) */
+  immutable?: boolean;
+  /** Override the detected Content-Type */
+  contentType?: string;
+}
+
+export class SendFileError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SendFileError';
+  }
+}
+
+/** Status, headers and body for a file response; the reply merges in its own headers */
+export interface FileResponse {
+  status: number | null;
+  headers: Record<string, string>;
+  body: ReadableStream<Uint8Array> | null;
+}
+
+// ─── MIME Types ───
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  wasm: 'application/wasm',
+};
+
+function mimeType(path: string): string {
+  const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return MIME_TYPES[ext] ?? 'application/octet-stream';
+}
+
+// ─── sendFile ───
+
+/** Most ranges honoured in one request — more is treated as a plain GET */
+const MAX_RANGES = 16;
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Stat and open a file, applying conditional headers (`If-None-Match`,
+ * `If-Modified-Since`) and `Range`/`If-Range` from the request. `node:fs`
+ * is imported lazily so the server still loads on edge runtimes.
+ */
+export async function prepareFile(
+  path: string,
+  options: SendFileOptions,
+  request: Request | undefined,
+): Promise<FileResponse> {
+  const { open } = await import('node:fs/promises');
+  const filePath = await resolvePath(path, options.root);
+
+  let handle: FileHandle;
+  try {
+    handle = await open(filePath, 'r');
+  } catch {
+    throw new SendFileError(404, 'File not found');
+  }
+
+  try {
+    const stats = await handle.stat();
+    if (!stats.isFile()) {
+      throw new SendFileError(404, 'File not found');
+    }
+
+    const size = stats.size;
+    const etag = `"${size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+    const lastModified = stats.mtime.toUTCString();
+    const cacheControl = `public, max-age=${Math.max(0, Math.floor(options.maxAge ?? 0))}` +
+      (options.immutable ? ', immutable' : '');
+    const validators = { etag, 'last-modified': lastModified, 'cache-control': cacheControl };
+
+    const method = request?.method.toUpperCase();
+    const headers = request?.headers;
+    if (headers && (method === 'GET' || method === 'HEAD') && isNotModified(headers, etag, stats.mtime)) {
+      await handle.close();
+      return { status: 304, headers: validators, body: null };
+    }
+
+    const contentType = options.contentType ?? mimeType(filePath);
+    const base = { ...validators, 'content-type': contentType, 'accept-ranges': 'bytes' };
+
+    const rangeHeader = headers?.get('range');
+    const ranges = rangeHeader && method === 'GET' && isRangeFresh(headers!, etag, lastModified)
+      ? parseRange(rangeHeader, size)
+      : null;
+
+    if (ranges === 'unsatisfiable') {
+      await handle.close();
+      return { status: 416, headers: { ...base, 'content-range': `bytes */${size}` }, body: null };
+    }
+
+    if (!ranges) {
+      return {
+        status: null,
+        headers: { ...base, 'content-length': String(size) },
+        body: fileStream(handle, [{ start: 0, end: size - 1 }]),
+      };
+    }
+
+    if (ranges.length === 1) {
+      const [range] = ranges as [ByteRange];
+      return {
+        status: 206,
+        headers: {
+          ...base,
+          'content-range': `bytes ${range.start}-${range.end}/${size}`,
+          'content-length': String(range.end - range.start + 1),
+        },
+        body: fileStream(handle, ranges),
+      };
+    }
+
+    // multipart/byteranges: each part carries its own type and range
+    const boundary = `vura-${crypto.randomUUID()}`;
+    const encoder = new TextEncoder();
+    const parts: Array<Uint8Array | ByteRange> = [];
+    let length = 0;
+    ranges.forEach((range, i) => {
+      const head = encoder.encode(
+        `${i === 0 ? '' : '\r\n'}--${boundary}\r\ncontent-type: ${contentType}\r\n` +
+          `content-range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`,
+      );
+      parts.push(head, range);
+      length += head.length + range.end - range.start + 1;
+    });
+    const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+    parts.push(tail);
+    length += tail.length;
+
+    return {
+      status: 206,
+      headers: {
+        ...validators,
+        'accept-ranges': 'bytes',
+        'content-type': `multipart/byteranges; boundary=${boundary}`,
+        'content-length': String(length),
+      },
+      body: fileStream(handle, parts),
+    };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+async function resolvePath(path: string, root: string | undefined): Promise<string> {
+  if (path.includes('\0')) {
+    throw new SendFileError(400, 'Invalid file path');
+  }
+
+  const { resolve, relative, isAbsolute, sep } = await import('node:path');
+  if (root === undefined) {
+    return resolve(path);
+  }
+
+  const base = resolve(root);
+  const filePath = resolve(base, path.replace(/^[/\\]+/, ''));
+  const rel = relative(base, filePath);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new SendFileError(403, 'File path escapes the root directory');
+  }
+  return filePath;
+}
+
+// ─── Conditional Requests ───
+
+function isNotModified(headers: Headers, etag: string, mtime: Date): boolean {
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch) {
+    // Weak comparison (RFC 9110 §13.1.2); If-Modified-Since is ignored
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+/** If-Range: serve the range only if the representation is unchanged (strong match) */
+function isRangeFresh(headers: Headers, etag: string, lastModified: string): boolean {
+  const ifRange = headers.get('if-range');
+  if (!ifRange) return true;
+  return ifRange.startsWith('"') ? ifRange === etag : ifRange === lastModified;
+}
+
+// ─── Ranges ───
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse `bytes=0-99,200-,-50` against `size`. Returns null to ignore the
+ * header (malformed or too many ranges) and 'unsatisfiable' for a 416.
+ */
+function parseRange(header: string, size: number): ByteRange[] | 'unsatisfiable' | null {
+  const match = /^bytes=(.+)$/.exec(header.trim());
+  if (!match) return null;
+
+  const specs = match[1]!.split(',');
+  if (specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^\s*(\d*)-(\d*)\s*$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    let start: number;
+    let end: number;
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      if (Number(parts[2]) === 0) continue;
+      start = Math.max(0, size - Number(parts[2]));
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== '' && Number(parts[2]) < start) return null;
+    }
+    if (start < size) {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges.length > 0 ? ranges : 'unsatisfiable';
+}
+
+/** Stream literal chunks and file ranges in order, closing the file when done or cancelled */
+function fileStream(handle: FileHandle, parts: Array<Uint8Array | ByteRange>): ReadableStream<Uint8Array> {
+  let index = 0;
+  let position = -1;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (index < parts.length) {
+          const part = parts[index]!;
+          if (part instanceof Uint8Array) {
+            index += 1;
+            controller.enqueue(part);
+            return;
+          }
+
+          if (position === -1) position = part.start;
+          if (position > part.end) {
+            index += 1;
+            position = -1;
+            continue;
+          }
+
+          const length = Math.min(CHUNK_SIZE, part.end - position + 1);
+          const { bytesRead, buffer } = await handle.read(new Uint8Array(length), 0, length, position);
+          if (bytesRead === 0) {
+            // File shrank while streaming
+            index += 1;
+            position = -1;
+            continue;
+          }
+          position += bytesRead;
+          controller.enqueue(buffer.subarray(0, bytesRead));
+          return;
+        }
+
+        await handle.close();
+        controller.close();
+      } catch (error) {
+        await handle.close().catch(() => {});
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await handle.close();
+    },
+  });
+}
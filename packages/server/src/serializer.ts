@@ -0,0 +1,201 @@
+// @vura/server — Response schemas: field filtering + schema-driven stringify
+
+import { fromSchema } from '@vura/schema';
+import type { ResponseSerializer, ResponseSerializers } from './types.js';
+
+type Stringify = (value: unknown) => string;
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+}
+
+// ─── Compilation ───
+
+/**
+ * Compile `schema.response` into one serializer per status code.
+ * Runs once at route registration. Schemas whose JSON form declares no
+ * properties (Zod or Valibot without a JSON Schema converter) filter by
+ * validating instead: the validator's output is what gets sent, and a reply
+ * it rejects goes out unfiltered unless `validateResponses` is on.
+ */
+export function compileResponseSchemas(
+  response: Record<number, unknown> | undefined,
+): ResponseSerializers | undefined {
+  if (!response) return undefined;
+
+  const serializers: ResponseSerializers = new Map();
+  for (const [status, schema] of Object.entries(response)) {
+    const standard = fromSchema(schema);
+    const json = standard.toJsonSchema() as JsonSchema;
+    const opaque = json.type === 'object' && !json.properties && json.additionalProperties === undefined;
+    const serializer: ResponseSerializer = {
+      schema: standard,
+      stringify: opaque ? stringifyAny : buildStringifier(json),
+      filterByValidation: opaque,
+    };
+    serializers.set(Number(status), serializer);
+  }
+
+  return serializers.size > 0 ? serializers : undefined;
+}
+
+/**
+ * Build a stringifier from a JSON Schema. Object properties not declared in
+ * the schema are dropped. Built from closures rather than `new Function` so
+ * it also runs on runtimes that forbid eval (Cloudflare Workers).
+ */
+export function buildStringifier(schema: JsonSchema): Stringify {
+  return compileNode(schema ?? {});
+}
+
+function compileNode(schema: JsonSchema): Stringify {
+  if (schema.const !== undefined || schema.enum) {
+    return stringifyAny;
+  }
+
+  const branches = schema.anyOf ?? schema.oneOf;
+  if (branches) {
+    return compileUnion(branches);
+  }
+
+  if (Array.isArray(schema.type)) {
+    return compileUnion(schema.type.map((type) => ({ ...schema, type })));
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return compileObject(schema);
+    case 'array':
+      return compileArray(schema);
+    case 'string':
+      return stringifyString;
+    case 'number':
+      return stringifyNumber;
+    case 'integer':
+      return stringifyInteger;
+    case 'boolean':
+      return (value) => (value == null ? 'null' : value ? 'true' : 'false');
+    case 'null':
+      return () => 'null';
+    default:
+      return stringifyAny;
+  }
+}
+
+function compileObject(schema: JsonSchema): Stringify {
+  // An object schema without declared properties is free-form
+  if (!schema.properties) {
+    return stringifyAny;
+  }
+
+  const fields = Object.entries(schema.properties).map(([key, sub]) => ({
+    key,
+    prefix: `${JSON.stringify(key)}:`,
+    stringify: compileNode(sub),
+  }));
+  const declared = new Set(fields.map((f) => f.key));
+
+  const extra = schema.additionalProperties;
+  const stringifyExtra: Stringify | null =
+    extra === true ? stringifyAny : typeof extra === 'object' ? compileNode(extra) : null;
+
+  return (input) => {
+    if (input == null) return 'null';
+    const value = toJSONValue(input);
+    if (typeof value !== 'object' || value === null) return stringifyAny(value);
+
+    const record = value as Record<string, unknown>;
+    const parts: string[] = [];
+    for (const field of fields) {
+      const v = record[field.key];
+      if (v === undefined || typeof v === 'function') continue;
+      parts.push(field.prefix + field.stringify(v));
+    }
+    if (stringifyExtra) {
+      for (const key of Object.keys(record)) {
+        const v = record[key];
+        if (declared.has(key) || v === undefined || typeof v === 'function') continue;
+        parts.push(`${JSON.stringify(key)}:${stringifyExtra(v)}`);
+      }
+    }
+    return `{${parts.join(',')}}`;
+  };
+}
+
+function compileArray(schema: JsonSchema): Stringify {
+  const stringifyItem = schema.items ? compileNode(schema.items) : stringifyAny;
+
+  return (input) => {
+    if (input == null) return 'null';
+    const value = toJSONValue(input);
+    if (!Array.isArray(value)) return stringifyAny(value);
+    return `[${value.map((item) => (item === undefined ? 'null' : stringifyItem(item))).join(',')}]`;
+  };
+}
+
+function compileUnion(branches: JsonSchema[]): Stringify {
+  const compiled = branches.map((branch) => ({
+    type: Array.isArray(branch.type) ? undefined : branch.type,
+    stringify: compileNode(branch),
+  }));
+
+  return (value) => {
+    const match = compiled.find((branch) => branch.type === undefined || matchesType(branch.type, value));
+    return match ? match.stringify(value) : stringifyAny(value);
+  };
+}
+
+// ─── Primitives ───
+
+function stringifyAny(value: unknown): string {
+  return JSON.stringify(value) ?? 'null';
+}
+
+function stringifyString(value: unknown): string {
+  if (value == null) return 'null';
+  if (value instanceof Date) return JSON.stringify(value);
+  return JSON.stringify(String(value));
+}
+
+function stringifyNumber(value: unknown): string {
+  if (value == null) return 'null';
+  const n = Number(value);
+  return Number.isFinite(n) ? String(n) : 'null';
+}
+
+function stringifyInteger(value: unknown): string {
+  if (value == null) return 'null';
+  const n = Math.trunc(Number(value));
+  return Number.isFinite(n) ? String(n) : 'null';
+}
+
+function toJSONValue(value: unknown): unknown {
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return (value as { toJSON(): unknown }).toJSON();
+  }
+  return value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string' || value instanceof Date;
+    default:
+      return typeof value === type;
+  }
+}
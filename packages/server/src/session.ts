@@ -0,0 +1,316 @@
+// @vura/server — Sessions: encrypted cookie sessions and pluggable server-side stores
+
+import { definePlugin } from './plugin.js';
+import { serializeCookie, encryptCookie, decryptCookie, signCookie, unsignCookie } from './cookie.js';
+import type { CookieOptions, CookieSecret } from './cookie.js';
+import type { VuraRequest } from './types.js';
+
+// ─── Types ───
+
+export type SessionData = Record<string, unknown>;
+
+/** What a server-side store keeps per session id */
+export interface SessionRecord {
+  data: SessionData;
+  /** Expiry as a Unix timestamp in milliseconds */
+  expires: number;
+}
+
+/**
+ * Server-side session storage. The cookie then only carries a signed session
+ * id. Stores should drop records once `expires` has passed.
+ */
+export interface SessionStore {
+  get(id: string): Promise<SessionRecord | undefined>;
+  set(id: string, record: SessionRecord): Promise<void>;
+  destroy(id: string): Promise<void>;
+}
+
+/** `request.session` */
+export interface Session {
+  /** The server-side session id (undefined with the cookie store, or after `destroy()`) */
+  readonly id: string | undefined;
+  /** True until the session has been saved once */
+  readonly isNew: boolean;
+  get<T = unknown>(key: string): T | undefined;
+  /** Values must be JSON-serializable. Mutating a value in place is not tracked — set it again. */
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  /** Start over with an empty session under a new id (call on login to prevent fixation) */
+  regenerate(): void;
+  /** Drop the session and clear its cookie */
+  destroy(): void;
+}
+
+export interface SessionOptions extends Record<string, unknown> {
+  /** Secret(s) to encrypt the cookie (or sign the id); the first encrypts, all decrypt */
+  secret: CookieSecret;
+  /** Server-side store; default: the whole session lives in an encrypted cookie */
+  store?: SessionStore;
+  /** Cookie name (default `sid`) */
+  cookieName?: string;
+  /** Session lifetime in seconds (default 86400) */
+  maxAge?: number;
+  /** Extend the expiry of unchanged sessions once less than half of `maxAge` is left (default true) */
+  rolling?: boolean;
+  /** Cookie attributes (default `httpOnly`, `sameSite: 'lax'`, path `/`) */
+  cookie?: Omit<CookieOptions, 'maxAge' | 'expires'>;
+}
+
+/** Browsers drop larger cookies */
+const MAX_COOKIE_SIZE = 4096;
+
+// ─── Session ───
+
+class RequestSession implements Session {
+  data: SessionData;
+  id: string | undefined;
+  isNew: boolean;
+  expires: number;
+  changed = false;
+  destroyed = false;
+  /** Read with an older secret, so save again under the current one */
+  rotated = false;
+  /** Ids to remove from the store on save (after regenerate/destroy) */
+  stale: string[] = [];
+
+  constructor(
+    record: SessionRecord | undefined,
+    id: string | undefined,
+    maxAge: number,
+    private readonly newId: () => string | undefined,
+  ) {
+    this.data = record?.data ?? {};
+    this.id = id ?? newId();
+    this.isNew = record === undefined;
+    this.expires = record?.expires ?? Date.now() + maxAge * 1000;
+  }
+
+  get<T = unknown>(key: string): T | undefined {
+    return this.data[key] as T | undefined;
+  }
+
+  set(key: string, value: unknown): void {
+    this.data[key] = value;
+    this.changed = true;
+    this.destroyed = false;
+  }
+
+  delete(key: string): void {
+    if (key in this.data) {
+      delete this.data[key];
+      this.changed = true;
+    }
+  }
+
+  regenerate(): void {
+    if (this.id !== undefined && !this.isNew) this.stale.push(this.id);
+    this.id = this.newId();
+    this.data = {};
+    this.isNew = true;
+    this.changed = true;
+    this.destroyed = false;
+  }
+
+  destroy(): void {
+    if (this.id !== undefined && !this.isNew) this.stale.push(this.id);
+    this.id = undefined;
+    this.data = {};
+    this.destroyed = true;
+  }
+}
+
+// ─── Plugin ───
+
+/**
+ * Load `request.session` in `onRequest` and save it in `onSend`, which also
+ * runs for error and early replies — only when it changed, was regenerated or
+ * destroyed, was read with an older secret, or is due a rolling refresh.
+ */
+export const session = definePlugin<SessionOptions>(
+  { name: '@vura/session', encapsulate: false },
+  (app, options) => {
+    const cookieName = options.cookieName ?? 'sid';
+    const maxAge = options.maxAge ?? 86_400;
+    const rolling = options.rolling ?? true;
+    const cookieOptions: CookieOptions = { httpOnly: true, sameSite: 'lax', path: '/', ...options.cookie };
+    const sessions = new WeakMap<VuraRequest, RequestSession>();
+    // Server-side sessions get their id up front so handlers can read it
+    const newId = () => (options.store ? crypto.randomUUID() : undefined);
+
+    const load = async (request: VuraRequest): Promise<RequestSession> => {
+      const value = request.cookies[cookieName];
+      if (value === undefined) return new RequestSession(undefined, undefined, maxAge, newId);
+
+      let current: RequestSession;
+      let opened: Opened;
+      if (!options.store) {
+        opened = await openCookie(value, options.secret, decryptCookie);
+        const record = opened.value === null ? undefined : parseRecord(opened.value);
+        current = new RequestSession(record, undefined, maxAge, newId);
+      } else {
+        opened = await openCookie(value, options.secret, unsignCookie);
+        const record = opened.value === null ? undefined : await options.store.get(opened.value);
+        const live = record && record.expires > Date.now() ? record : undefined;
+        current = new RequestSession(live, live ? opened.value! : undefined, maxAge, newId);
+      }
+      current.rotated = opened.rotated && !current.isNew;
+      return current;
+    };
+
+    /** The Set-Cookie value to send, or null when nothing needs saving */
+    const save = async (current: RequestSession): Promise<string | null> => {
+      for (const id of current.stale) {
+        await options.store?.destroy(id);
+      }
+      current.stale = [];
+
+      if (current.destroyed) {
+        return serializeCookie(cookieName, '', { ...cookieOptions, maxAge: 0, expires: new Date(0) });
+      }
+
+      const now = Date.now();
+      const refresh = rolling && current.expires - now < (maxAge * 1000) / 2;
+      if (!current.changed && !current.rotated && !refresh) return null;
+      if (current.isNew && Object.keys(current.data).length === 0) return null;
+
+      const record: SessionRecord = { data: current.data, expires: now + maxAge * 1000 };
+      let value: string;
+      if (options.store) {
+        current.id ??= crypto.randomUUID();
+        await options.store.set(current.id, record);
+        value = await signCookie(current.id, options.secret);
+      } else {
+        value = await encryptCookie(JSON.stringify(record), options.secret);
+      }
+
+      const cookie = serializeCookie(cookieName, value, { ...cookieOptions, maxAge });
+      if (cookie.length > MAX_COOKIE_SIZE) {
+        throw new Error(`Session cookie "${cookieName}" exceeds ${MAX_COOKIE_SIZE} bytes; use a server-side store`);
+      }
+      return cookie;
+    };
+
+    app.addHook('onRequest', async (request) => {
+      const current = await load(request);
+      sessions.set(request, current);
+      request.session = current;
+    });
+
+    app.addHook('onSend', async (request, reply, response) => {
+      const current = sessions.get(request);
+      if (!current) return;
+      const cookie = await save(current);
+      if (cookie === null) return;
+
+      const headers = new Headers(response.headers);
+      headers.append('set-cookie', cookie);
+      // Responses that set session cookies must not be shared by caches
+      if (!headers.has('cache-control')) headers.set('cache-control', 'private, no-store');
+      return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+    });
+  },
+);
+
+interface Opened {
+  value: string | null;
+  /** Only an older secret opened it */
+  rotated: boolean;
+}
+
+/** Open a cookie with the current secret, falling back to older ones */
+async function openCookie(
+  value: string,
+  secret: CookieSecret,
+  open: (value: string, secret: CookieSecret) => Promise<string | null>,
+): Promise<Opened> {
+  const [current, ...older] = Array.isArray(secret) ? secret : [secret];
+  const opened = await open(value, current!);
+  if (opened !== null || older.length === 0) return { value: opened, rotated: false };
+  const previous = await open(value, older);
+  return { value: previous, rotated: previous !== null };
+}
+
+function parseRecord(plaintext: string): SessionRecord | undefined {
+  try {
+    const record = JSON.parse(plaintext) as SessionRecord;
+    return typeof record.expires === 'number' && record.expires > Date.now() ? record : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ─── Stores ───
+
+/** Sessions in process memory — for development and single-instance servers */
+export class MemorySessionStore implements SessionStore {
+  private records = new Map<string, SessionRecord>();
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const record = this.records.get(id);
+    if (record && record.expires <= Date.now()) {
+      this.records.delete(id);
+      return undefined;
+    }
+    return record && structuredClone(record);
+  }
+
+  async set(id: string, record: SessionRecord): Promise<void> {
+    this.records.set(id, structuredClone(record));
+  }
+
+  async destroy(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  /** Drop expired sessions */
+  prune(): void {
+    const now = Date.now();
+    for (const [id, record] of this.records) {
+      if (record.expires <= now) this.records.delete(id);
+    }
+  }
+}
+
+/** One JSON file per session in `dir` (Node file system) */
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly dir: string) {}
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    let record: SessionRecord;
+    try {
+      record = JSON.parse(await readFile(await this.path(id), 'utf8')) as SessionRecord;
+    } catch {
+      return undefined;
+    }
+    if (record.expires <= Date.now()) {
+      await this.destroy(id);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set(id: string, record: SessionRecord): Promise<void> {
+    const { mkdir, writeFile, rename } = await import('node:fs/promises');
+    const path = await this.path(id);
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename so readers never see a partial file
+    const temp = `${path}.${crypto.randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(record));
+    await rename(temp, path);
+  }
+
+  async destroy(id: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(await this.path(id), { force: true });
+  }
+
+  private async path(id: string): Promise<string> {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error('Invalid session id');
+    }
+    const { join } = await import('node:path');
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,209 @@
+// @vura/server — Server-Sent Events (reply.sse)
+
+export interface SSEMessage {
+  /** Strings are sent as-is, anything else as JSON; multi-line data becomes several `data:` lines */
+  data?: unknown;
+  event?: string;
+  id?: string | number;
+  /** Reconnection delay for the client, in milliseconds */
+  retry?: number;
+  /** Sent as a `:` comment line, ignored by EventSource */
+  comment?: string;
+}
+
+export interface SSEOptions {
+  /** Interval between heartbeat comments in milliseconds (default 15000, 0 disables) */
+  heartbeat?: number;
+  /** Initial `retry:` field sent before the first event */
+  retry?: number;
+}
+
+/** Handle given to function sources */
+export interface SSEStream {
+  /** Queue an event; plain strings are sent as `data`. Doesn't wait for a slow client */
+  send(message: SSEMessage | string): void;
+  /** End the stream */
+  close(): void;
+  /** `Last-Event-ID` sent by a reconnecting client, if any */
+  readonly lastEventId: string | null;
+  /** Aborted when the client disconnects or the stream ends — use it to unsubscribe */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * An async iterable of events, or a function that pushes events through the
+ * stream. A function may also return an async iterable to consume; otherwise
+ * the stream stays open until `close()` is called or the client disconnects.
+ * Iterables are read only as fast as the client takes events. Only functions
+ * receive `lastEventId`, so one that resumes should return its iterable.
+ */
+export type SSESource =
+  | AsyncIterable<SSEMessage | string>
+  | ((stream: SSEStream) => void | Promise<void> | AsyncIterable<SSEMessage | string>);
+
+const encoder = new TextEncoder();
+
+// ─── Formatting ───
+
+/** Format one event in the `text/event-stream` wire format */
+export function formatEvent(message: SSEMessage | string): string {
+  if (typeof message === 'string') {
+    return formatEvent({ data: message });
+  }
+
+  let out = '';
+  if (message.comment !== undefined) {
+    for (const line of splitLines(message.comment)) {
+      out += `: ${line}\n`;
+    }
+  }
+  if (message.event !== undefined) {
+    out += `event: ${singleLine('event', message.event)}\n`;
+  }
+  if (message.id !== undefined) {
+    out += `id: ${singleLine('id', String(message.id))}\n`;
+  }
+  if (message.retry !== undefined) {
+    out += `retry: ${Math.max(0, Math.floor(message.retry))}\n`;
+  }
+  if (message.data !== undefined) {
+    const data = typeof message.data === 'string' ? message.data : JSON.stringify(message.data);
+    for (const line of splitLines(data)) {
+      out += `data: ${line}\n`;
+    }
+  }
+  return `${out}\n`;
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/);
+}
+
+function singleLine(field: string, value: string): string {
+  if (/[\r\n\0]/.test(value)) {
+    throw new Error(`SSE ${field} must not contain newlines or NUL characters`);
+  }
+  return value;
+}
+
+// ─── Stream ───
+
+/**
+ * Build the response body for `reply.sse`. Iteration stops, and the source's
+ * `return()` runs, when the request's AbortSignal fires or the body is cancelled.
+ */
+export function createEventStream(
+  source: SSESource,
+  options: SSEOptions = {},
+  request?: Request,
+): ReadableStream<Uint8Array> {
+  const stop = new AbortController();
+  const lastEventId = request?.headers.get('last-event-id') ?? null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+  let cancelled = false;
+  /** Resolves the wait for demand once the consumer pulls */
+  let wake: (() => void) | undefined;
+
+  const onAbort = () => stop.abort();
+  request?.signal.addEventListener('abort', onAbort, { once: true });
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const finish = (error?: unknown) => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        wake?.();
+        request?.signal.removeEventListener('abort', onAbort);
+        stop.abort();
+        // A cancelled stream is already closed on the consumer's side
+        if (!cancelled) {
+          if (error === undefined) controller.close();
+          else controller.error(error);
+        }
+      };
+
+      stop.signal.addEventListener('abort', () => finish(), { once: true });
+      if (request?.signal.aborted) {
+        finish();
+        return;
+      }
+
+      if (options.retry !== undefined) {
+        write(formatEvent({ retry: options.retry }));
+      }
+      const interval = options.heartbeat ?? 15_000;
+      if (interval > 0) {
+        heartbeat = setInterval(() => write(':\n\n'), interval);
+      }
+
+      // Wait while the queue is full, so an iterable is read at the client's pace
+      const demand = (): Promise<void> => {
+        if (closed || (controller.desiredSize ?? 0) > 0) return Promise.resolve();
+        return new Promise((resolve) => {
+          wake = resolve;
+        });
+      };
+
+      const stream: SSEStream = {
+        send: (message) => write(formatEvent(message)),
+        close: () => finish(),
+        lastEventId,
+        signal: stop.signal,
+      };
+
+      Promise.resolve()
+        .then(async () => {
+          const iterable = typeof source === 'function' ? await source(stream) : source;
+          if (iterable) {
+            await consume(iterable, stream, demand, stop.signal);
+            finish();
+          }
+        })
+        .catch((error) => finish(error));
+    },
+    pull() {
+      wake?.();
+      wake = undefined;
+    },
+    cancel() {
+      cancelled = true;
+      stop.abort();
+    },
+  });
+}
+
+async function consume(
+  iterable: AsyncIterable<SSEMessage | string>,
+  stream: SSEStream,
+  demand: () => Promise<void>,
+  signal: AbortSignal,
+): Promise<void> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  const aborted = new Promise<IteratorResult<never>>((resolve) => {
+    signal.addEventListener('abort', () => resolve({ done: true, value: undefined as never }), { once: true });
+  });
+
+  let exhausted = false;
+  try {
+    while (!signal.aborted) {
+      await demand();
+      if (signal.aborted) break;
+      const result = await Promise.race([iterator.next(), aborted]);
+      if (result.done) {
+        exhausted = !signal.aborted;
+        break;
+      }
+      stream.send(result.value);
+    }
+  } finally {
+    if (!exhausted) {
+      // Don't wait: the generator may be suspended on an await that never settles
+      void Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
@@ -1,5 +1,23 @@
 // @vura/server — Type definitions
 
+import type { StandardSchema } from '@vura/schema';
+import type { CookieOptions, CookieSecret } from './cookie.js';
+import type { SendFileOptions } from './send-file.js';
+import type { SSESource, SSEOptions } from './sse.js';
+import type { RateLimitRule } from './rate-limit.js';
+import type { Session } from './session.js';
+import type { SecurityHeadersOptions } from './security-headers.js';
+import type {
+  ContentTypeMatcher,
+  ContentTypeParser,
+  ContentTypeParserOptions,
+  ContentTypeParsers,
+  ParseAs,
+  ParsedAs,
+} from './body.js';
+import type { MultipartOptions } from './multipart.js';
+import type { TrustProxy } from './proxy.js';
+
 // ─── Hook Types ───
 
 export type HookName =
@@ -12,18 +30,38 @@ export type HookName =
   | 'onResponse'
   | 'onError';
 
-export type HookHandler<T = void> = (
-  request: VuraRequest,
-  reply: VuraReply,
+export type HookHandler<T = void, TRequest = {}, TReply = {}> = (
+  request: VuraRequest & TRequest,
+  reply: VuraReply & TReply,
 ) => T | Promise<T>;
 
-export type OnErrorHandler = (
+export type OnErrorHandler<TRequest = {}, TReply = {}> = (
   error: Error,
-  request: VuraRequest,
-  reply: VuraReply,
+  request: VuraRequest & TRequest,
+  reply: VuraReply & TReply,
 ) => void | Response | Promise<void | Response>;
 
-export type HookFunction = HookHandler<void | Response> | OnErrorHandler;
+/**
+ * Sees the value behind a `reply.json()`/`reply.send(object)` response before
+ * it is serialized. Return a new value to serialize instead, or a Response.
+ */
+export type PreSerializationHandler<TRequest = {}, TReply = {}> = (
+  request: VuraRequest & TRequest,
+  reply: VuraReply & TReply,
+  payload: unknown,
+) => unknown | Promise<unknown>;
+
+/**
+ * Sees the outgoing Response. Return a Response to replace it, or a body
+ * (string, bytes, stream; anything else as JSON) to keep its status and headers.
+ */
+export type OnSendHandler<TRequest = {}, TReply = {}> = (
+  request: VuraRequest & TRequest,
+  reply: VuraReply & TReply,
+  payload: Response,
+) => unknown | Promise<unknown>;
+
+export type HookFunction = HookHandler<void | Response> | OnErrorHandler | PreSerializationHandler | OnSendHandler;
 
 // ─── Request / Reply ───
 
@@ -31,37 +69,115 @@ export interface VuraRequest extends Request {
   params: Record<string, string>;
   query: Record<string, string>;
   parsedBody: unknown;
+  /** The body bytes as received — only present on routes declared with `rawBody: true` */
+  rawBody?: Uint8Array;
+  /** The client's address: the socket's, or with `trustProxy` the first untrusted forwarded one (undefined if the adapter gives none) */
+  ip?: string;
+  /** With `trustProxy`, the forwarded addresses up to and including `ip`, client first */
+  ips: string[];
+  /** `http` or `https`, from the URL or a trusted proxy */
+  protocol: string;
+  /** The host without its port, from the URL or a trusted proxy */
+  hostname: string;
+  /** Parsed `Cookie` header */
+  cookies: Record<string, string>;
+  /** A cookie set with `reply.setSignedCookie`, or null if missing or tampered with */
+  signedCookie(name: string): Promise<string | null>;
+  /** A cookie set with `reply.setEncryptedCookie`, or null if missing or undecryptable */
+  encryptedCookie(name: string): Promise<string | null>;
+  /** Preferred media types from `Accept`; with a list, the best acceptable one or false */
+  accepts(): string[];
+  accepts(types: string[]): string | false;
+  /** Same for `Accept-Language` (`en` matches `en-US`) */
+  acceptsLanguages(): string[];
+  acceptsLanguages(languages: string[]): string | false;
+  /** Same for `Accept-Encoding`; without the header only `identity` is accepted */
+  acceptsEncodings(): string[];
+  acceptsEncodings(encodings: string[]): string | false;
+  /** Values captured by route constraints: `subdomain` from a wildcard host (`*.example.com`), named groups from a RegExp host */
+  captures: Record<string, string>;
+  /** The request's session — only present when the `session` plugin is registered */
+  session?: Session;
+  /** A CSRF token for forms and headers — only present when the `csrf` plugin is registered */
+  csrfToken?: () => Promise<string>;
+  /** This request's CSP nonce for inline `<script>`/`<style>` — only present when the `securityHeaders` plugin is registered */
+  cspNonce?: string;
+  /** The matched route's method, URL pattern and `config` */
+  readonly routeOptions: Readonly<{ method: RouteMethod; url: string; config: RouteConfig }>;
   /** Populated by plugins */
   [key: string]: unknown;
 }
 
 export interface VuraReply {
   status(code: number): VuraReply;
-  header(key: string, value: string): VuraReply;
-  headers: Record<string, string>;
+  /** Set a header; pass an array to send several values */
+  header(key: string, value: string | string[]): VuraReply;
+  headers: Record<string, string | string[]>;
+  /** Append a `Set-Cookie` header */
+  setCookie(name: string, value: string, options?: CookieOptions): VuraReply;
+  /** HMAC-sign the value with `cookieSecret`; read it back with `request.signedCookie` */
+  setSignedCookie(name: string, value: string, options?: CookieOptions): Promise<VuraReply>;
+  /** AES-GCM-encrypt the value with `cookieSecret`; read it back with `request.encryptedCookie` */
+  setEncryptedCookie(name: string, value: string, options?: CookieOptions): Promise<VuraReply>;
+  /** Expire a cookie; pass the same path/domain it was set with */
+  clearCookie(name: string, options?: CookieOptions): VuraReply;
   statusCode: number;
+  /**
+   * Send any value: strings as text, `Uint8Array`/`ArrayBuffer` as binary,
+   * `ReadableStream` and async iterables as a stream, everything else as JSON
+   * through the route's response serializer.
+   */
   send(data: unknown): Response;
   html(content: string): Response;
   json(data: unknown): Response;
   stream(readable: ReadableStream): Response;
+  /**
+   * Call the handler for the best type the client accepts, setting
+   * Content-Type and `Vary: Accept`. Falls back to `default`, else 406.
+   */
+  format(handlers: FormatHandlers): Response | Promise<Response>;
+  /** Stream Server-Sent Events from an async iterable or a push function */
+  sse(source: SSESource, options?: SSEOptions): Response;
+  /** Stream a file with MIME detection, ETag/Last-Modified, 304s and byte ranges */
+  sendFile(path: string, options?: SendFileOptions): Promise<Response>;
   redirect(url: string, code?: number): Response;
   /** Has a response already been sent? */
   sent: boolean;
 }
 
+/** `reply.format` handlers keyed by media type, plus an optional `default` */
+export type FormatHandlers = Record<string, () => Response | Promise<Response>>;
+
 // ─── Route Handler ───
 
 export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
 
-export type RouteHandler = (
-  request: VuraRequest,
-  reply: VuraReply,
-) => Response | Promise<Response> | void | Promise<void>;
+/**
+ * What a handler may return. A Response is sent as-is; any other value except
+ * `undefined` goes through `reply.send()`, so reply status, headers and the
+ * response schema apply.
+ */
+export type RouteResult =
+  | Response
+  | string
+  | number
+  | boolean
+  | null
+  | object
+  | Uint8Array
+  | ReadableStream
+  | AsyncIterable<string | Uint8Array>
+  | void;
 
-export interface RouteOptions {
+export type RouteHandler<TRequest = {}, TReply = {}> = (
+  request: VuraRequest & TRequest,
+  reply: VuraReply & TReply,
+) => RouteResult | Promise<RouteResult>;
+
+export interface RouteOptions<TRequest = {}, TReply = {}> {
   method: RouteMethod | RouteMethod[];
   url: string;
-  handler: RouteHandler;
+  handler: RouteHandler<TRequest, TReply>;
   /** Endpoint type */
   kind?: 'serverless' | 'hot' | 'task';
   /** Schema for validation */
@@ -71,16 +187,46 @@ export interface RouteOptions {
     params?: unknown;
     response?: Record<number, unknown>;
   };
-  /** Route-specific hooks */
-  onRequest?: HookHandler | HookHandler[];
-  preHandler?: HookHandler | HookHandler[];
-  preSerialization?: HookHandler | HookHandler[];
+  /** Match only requests that satisfy every constraint (host, version, custom strategies) */
+  constraints?: RouteConstraints;
+  /** Per-route settings for plugins, readable as `request.routeOptions.config` */
+  config?: RouteConfig;
+  /** Largest body accepted, in bytes; larger ones get a 413 (default: the parser's, else the app's) */
+  bodyLimit?: number;
+  /** Keep the body bytes as `request.rawBody` (e.g. to verify webhook signatures) */
+  rawBody?: boolean;
+  /** Route-specific hooks (run after the encapsulation context's hooks) */
+  onRequest?: RouteHook<TRequest, TReply>;
+  preParsing?: RouteHook<TRequest, TReply>;
+  preValidation?: RouteHook<TRequest, TReply>;
+  preHandler?: RouteHook<TRequest, TReply>;
+  preSerialization?: PreSerializationHandler<TRequest, TReply> | PreSerializationHandler<TRequest, TReply>[];
+  onSend?: OnSendHandler<TRequest, TReply> | OnSendHandler<TRequest, TReply>[];
+  onResponse?: RouteHook<TRequest, TReply>;
+  onError?: OnErrorHandler<TRequest, TReply> | OnErrorHandler<TRequest, TReply>[];
 }
 
+/** Per-route plugin settings; extend with declaration merging for your own plugins */
+export interface RouteConfig {
+  /** Override the `rateLimit` plugin's rule for this route (own counter), or `false` to exempt it */
+  rateLimit?: Partial<RateLimitRule> | false;
+  /** `false` exempts the route from the `csrf` plugin's checks (e.g. webhooks) */
+  csrf?: boolean;
+  /** Override the `securityHeaders` policy for this route, or `false` to send none */
+  securityHeaders?: SecurityHeadersOptions | false;
+  [key: string]: unknown;
+}
+
+type RouteHook<TRequest, TReply> =
+  | HookHandler<void | Response, TRequest, TReply>
+  | HookHandler<void | Response, TRequest, TReply>[];
+
 export interface RouteMatch {
   handler: RouteHandler;
   params: Record<string, string>;
   route: InternalRoute;
+  /** Values captured by constraint strategies (e.g. `subdomain`) */
+  captures: Record<string, string>;
 }
 
 export interface InternalRoute {
@@ -89,57 +235,187 @@ export interface InternalRoute {
   handler: RouteHandler;
   kind: 'serverless' | 'hot' | 'task';
   schema?: RouteOptions['schema'];
+  constraints?: RouteConstraints;
+  config?: RouteConfig;
+  bodyLimit?: number;
+  rawBody?: boolean;
+  /** Content-type parsers of the context the route was declared in */
+  parsers?: ContentTypeParsers;
+  /** Request schemas compiled at registration */
+  validators?: RouteValidators;
+  /** Response serializers by status code, compiled at registration */
+  serializers?: ResponseSerializers;
+  /** Request/reply decorations of the context the route was declared in */
+  requestDecorations?: Map<string, unknown>;
+  replyDecorations?: Map<string, unknown>;
   hooks: RouteHooks;
 }
 
+// ─── Constraints ───
+
+export interface RouteConstraints {
+  /** Exact host, wildcard subdomain (`*.example.com`) or RegExp */
+  host?: string | RegExp;
+  /** Exact semver version, matched against the Accept-Version range */
+  version?: string;
+  /** Values for custom strategies */
+  [name: string]: unknown;
+}
+
+export interface ConstraintStrategy<T = unknown> {
+  /** Key in `RouteOptions.constraints` */
+  name: string;
+  /** Read the request's value; undefined when the request doesn't carry one */
+  deriveConstraint(request: Request): string | undefined;
+  /**
+   * Test a route's value against the derived one. Return false to reject,
+   * true to accept, or captured values, which become `request.captures`.
+   */
+  match(value: T, derived: string | undefined): boolean | Record<string, string>;
+  /** Reject unconstrained routes when the request carries a value (e.g. Accept-Version) */
+  mustMatchWhenDerived?: boolean;
+  /** Order routes sharing a path and method; the first that matches wins */
+  compare?(a: T, b: T): number;
+  /** Check a route's value at registration; throw to reject it */
+  validate?(value: unknown): void;
+}
+
+export type ValidationTarget = 'params' | 'querystring' | 'body';
+
+export type RouteValidators = Partial<Record<ValidationTarget, StandardSchema>>;
+
+export interface ResponseSerializer {
+  schema: StandardSchema;
+  /** Stringifier generated from the schema's JSON form; drops undeclared fields */
+  stringify(data: unknown): string;
+  /** The JSON form declares no fields, so replies are filtered by validating them */
+  filterByValidation?: boolean;
+}
+
+export type ResponseSerializers = Map<number, ResponseSerializer>;
+
 export interface RouteHooks {
   onRequest: HookHandler[];
+  preParsing: HookHandler[];
+  preValidation: HookHandler[];
   preHandler: HookHandler[];
-  preSerialization: HookHandler[];
+  preSerialization: PreSerializationHandler[];
+  onSend: OnSendHandler[];
+  onResponse: HookHandler[];
+  onError: OnErrorHandler[];
 }
 
 // ─── Plugin ───
 
-export type PluginFunction = (
-  app: PluginContext,
-  options: Record<string, unknown>,
+/**
+ * A plugin. It receives the registering context's decorations, so a plugin
+ * registered inline (or declared with the parent's types) sees them typed.
+ */
+export type PluginFunction<TOptions = Record<string, unknown>, TApp = {}, TRequest = {}, TReply = {}> = (
+  app: DecoratedPluginContext<TApp, TRequest, TReply>,
+  options: TOptions,
 ) => void | Promise<void>;
 
 export interface PluginOptions {
+  /** Route prefix (ignored by plugins defined with `encapsulate: false`) */
   prefix?: string;
 }
 
-export interface PluginContext {
+export interface PluginMeta {
+  /** Unique name — used for dependencies, duplicate checks and hasPlugin() */
+  name: string;
+  /** Plugins that must be registered (in this context or an ancestor) first */
+  dependencies?: string[];
+  /** Decorators that must already exist */
+  decorators?: {
+    app?: string[];
+    request?: string[];
+  };
+  /** Set to false to run in the registering context instead of a child (default: true) */
+  encapsulate?: boolean;
+}
+
+/**
+ * Plugin-facing API. The type parameters accumulate decorations: each
+ * `decorate*` call returns the context widened with the new property, and
+ * handlers/hooks registered through it see the decorated request and reply.
+ */
+export interface PluginContext<TApp = {}, TRequest = {}, TReply = {}> {
   // Registration
-  register(plugin: PluginFunction, options?: PluginOptions): Promise<void>;
-  route(options: RouteOptions): void;
-  get(url: string, handler: RouteHandler): void;
-  post(url: string, handler: RouteHandler): void;
-  put(url: string, handler: RouteHandler): void;
-  patch(url: string, handler: RouteHandler): void;
-  delete(url: string, handler: RouteHandler): void;
+  register<TOptions extends Record<string, unknown> = Record<string, unknown>>(
+    plugin: PluginFunction<TOptions, TApp, TRequest, TReply>,
+    options?: PluginOptions & TOptions,
+  ): Promise<void>;
+  hasPlugin(name: string): boolean;
+  route(options: RouteOptions<TRequest, TReply>): void;
+  get(url: string, handler: RouteHandler<TRequest, TReply>): void;
+  post(url: string, handler: RouteHandler<TRequest, TReply>): void;
+  put(url: string, handler: RouteHandler<TRequest, TReply>): void;
+  patch(url: string, handler: RouteHandler<TRequest, TReply>): void;
+  delete(url: string, handler: RouteHandler<TRequest, TReply>): void;
 
   // Hooks
-  addHook(name: 'onRequest', handler: HookHandler): void;
-  addHook(name: 'preParsing', handler: HookHandler): void;
-  addHook(name: 'preValidation', handler: HookHandler): void;
-  addHook(name: 'preHandler', handler: HookHandler): void;
-  addHook(name: 'preSerialization', handler: HookHandler): void;
-  addHook(name: 'onSend', handler: HookHandler): void;
-  addHook(name: 'onResponse', handler: HookHandler): void;
-  addHook(name: 'onError', handler: OnErrorHandler): void;
-  addHook(name: HookName, handler: HookHandler | OnErrorHandler): void;
+  addHook(name: 'onRequest', handler: HookHandler<void | Response, TRequest, TReply>): void;
+  addHook(name: 'preParsing', handler: HookHandler<void | Response, TRequest, TReply>): void;
+  addHook(name: 'preValidation', handler: HookHandler<void | Response, TRequest, TReply>): void;
+  addHook(name: 'preHandler', handler: HookHandler<void | Response, TRequest, TReply>): void;
+  addHook(name: 'preSerialization', handler: PreSerializationHandler<TRequest, TReply>): void;
+  addHook(name: 'onSend', handler: OnSendHandler<TRequest, TReply>): void;
+  addHook(name: 'onResponse', handler: HookHandler<void | Response, TRequest, TReply>): void;
+  addHook(name: 'onError', handler: OnErrorHandler<TRequest, TReply>): void;
+  addHook(
+    name: HookName,
+    handler:
+      | HookHandler<void | Response, TRequest, TReply>
+      | PreSerializationHandler<TRequest, TReply>
+      | OnSendHandler<TRequest, TReply>
+      | OnErrorHandler<TRequest, TReply>,
+  ): void;
+
+  // Body parsing
+  addContentTypeParser(type: ContentTypeMatcher, parser: ContentTypeParser<string>): void;
+  addContentTypeParser<P extends ParseAs = 'string'>(
+    type: ContentTypeMatcher,
+    options: ContentTypeParserOptions<P>,
+    parser: ContentTypeParser<ParsedAs<P>>,
+  ): void;
 
   // Decorators
-  decorate(name: string, value: unknown): void;
-  decorateRequest(name: string, value: unknown): void;
+  decorate<K extends string, V>(name: K, value: V): DecoratedPluginContext<TApp & Record<K, V>, TRequest, TReply>;
+  decorateRequest<K extends string, V>(
+    name: K,
+    value: V,
+  ): DecoratedPluginContext<TApp, TRequest & Record<K, DecorationValue<V>>, TReply>;
+  decorateReply<K extends string, V>(
+    name: K,
+    value: V,
+  ): DecoratedPluginContext<TApp, TRequest, TReply & Record<K, DecorationValue<V>>>;
+  /** Read an app decoration from this context or an ancestor */
+  getDecoration<K extends keyof TApp & string>(name: K): TApp[K];
+  getDecoration<T = unknown>(name: string): T | undefined;
 }
 
+/** A PluginContext whose app decorations are readable as properties (`app.db`) */
+export type DecoratedPluginContext<TApp, TRequest, TReply> = PluginContext<TApp, TRequest, TReply> & TApp;
+
+/** Request/reply decorations given as a function are factories, called per request */
+export type DecorationValue<V> = V extends (...args: never[]) => infer R ? R : V;
+
 // ─── App Config ───
 
 export interface VuraAppOptions {
   /** Base prefix for all routes */
   prefix?: string;
-  /** Trust proxy headers */
-  trustProxy?: boolean;
+  /** Which proxies' `Forwarded`/`X-Forwarded-*` headers to believe for `request.ip`, `protocol` and `hostname` (default: none) */
+  trustProxy?: TrustProxy;
+  /** Validate replies against `schema.response` and fail on mismatch (development) */
+  validateResponses?: boolean;
+  /** Receives non-fatal route registration diagnostics (default: console.warn) */
+  onRouteWarning?: (message: string) => void;
+  /** Secret(s) for signed and encrypted cookies; the first signs, all verify */
+  cookieSecret?: CookieSecret;
+  /** Largest request body parsed, in bytes; larger ones get a 413 (default 1 MiB) */
+  bodyLimit?: number;
+  /** Limits and file storage for `multipart/form-data` bodies (bounded by these instead of `bodyLimit`) */
+  multipart?: Omit<MultipartOptions, 'signal'>;
 }
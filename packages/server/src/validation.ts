@@ -0,0 +1,74 @@
+// @vura/server — Route schema validation via @vura/schema
+
+import { fromSchema } from '@vura/schema';
+import type { StandardSchema, SchemaIssue } from '@vura/schema';
+import type { VuraRequest, RouteOptions, RouteValidators, ValidationTarget } from './types.js';
+
+// ─── Errors ───
+
+export class ValidationError extends Error {
+  readonly statusCode = 400;
+
+  constructor(
+    readonly validation: ValidationTarget,
+    readonly issues: SchemaIssue[],
+  ) {
+    super(`Request ${validation} validation failed`);
+    this.name = 'ValidationError';
+  }
+}
+
+export class ResponseValidationError extends Error {
+  readonly statusCode = 500;
+
+  constructor(
+    readonly status: number,
+    readonly issues: SchemaIssue[],
+  ) {
+    super(`Response for status ${status} does not match its schema`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+// ─── Compilation ───
+
+/**
+ * Normalize a route's request schemas once, at registration time.
+ * Returns undefined when the route declares nothing to validate.
+ */
+export function compileRouteSchema(schema: RouteOptions['schema']): RouteValidators | undefined {
+  if (!schema) return undefined;
+
+  const validators: RouteValidators = {};
+  if (schema.params !== undefined) validators.params = fromSchema(schema.params);
+  if (schema.querystring !== undefined) validators.querystring = fromSchema(schema.querystring);
+  if (schema.body !== undefined) validators.body = fromSchema(schema.body);
+
+  return Object.keys(validators).length > 0 ? validators : undefined;
+}
+
+// ─── Validation ───
+
+/**
+ * Validate params, querystring and body (in that order), replacing each
+ * with the schema output. Throws a ValidationError on the first failure.
+ */
+export function validateRequest(request: VuraRequest, validators: RouteValidators): void {
+  if (validators.params) {
+    request.params = run(validators.params, request.params, 'params') as Record<string, string>;
+  }
+  if (validators.querystring) {
+    request.query = run(validators.querystring, request.query, 'querystring') as Record<string, string>;
+  }
+  if (validators.body) {
+    request.parsedBody = run(validators.body, request.parsedBody, 'body');
+  }
+}
+
+function run(schema: StandardSchema, input: unknown, target: ValidationTarget): unknown {
+  const result = schema.validate(input);
+  if (!result.success) {
+    throw new ValidationError(target, result.issues ?? [{ message: 'Invalid input' }]);
+  }
+  return result.data;
+}
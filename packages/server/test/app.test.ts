@@ -1,7 +1,8 @@
 // @vura/server — Tests for VuraApp
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf } from 'vitest';
 import { createApp } from '../src/app.js';
+import { definePlugin } from '../src/plugin.js';
 import type { VuraRequest, VuraReply, PluginFunction } from '../src/types.js';
 
 // ─── Helpers ───
@@ -98,6 +99,149 @@ describe('VuraApp', () => {
     });
   });
 
+  describe('method handling', () => {
+    it('should answer 405 with an Allow header when only the method differs', async () => {
+      const app = createApp();
+      app.get('/users', (req, reply) => reply.json([]));
+      app.post('/users', (req, reply) => reply.status(201).json({}));
+
+      const response = await app.handle(makeRequest('/users', 'DELETE'));
+      expect(response.status).toBe(405);
+      expect(response.headers.get('allow')).toBe('GET, HEAD, POST, OPTIONS');
+    });
+
+    it('should serve HEAD from GET routes without a body', async () => {
+      const app = createApp();
+      app.get('/doc', (req, reply) => reply.header('x-version', '3').json({ big: 'payload' }));
+
+      const response = await app.handle(makeRequest('/doc', 'HEAD'));
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+      expect(response.headers.get('x-version')).toBe('3');
+      expect(await response.text()).toBe('');
+    });
+
+    it('should answer OPTIONS by default with the allowed methods', async () => {
+      const app = createApp();
+      app.get('/items/:id', (req, reply) => reply.json({}));
+      app.put('/items/:id', (req, reply) => reply.json({}));
+
+      const response = await app.handle(makeRequest('/items/1', 'OPTIONS'));
+      expect(response.status).toBe(204);
+      expect(response.headers.get('allow')).toBe('GET, HEAD, PUT, OPTIONS');
+    });
+
+    it('should let an OPTIONS route override the default responder', async () => {
+      const app = createApp();
+      app.get('/api/items', (req, reply) => reply.json([]));
+      app.route({
+        method: 'OPTIONS',
+        url: '/api/*',
+        handler: (req, reply) => reply.status(204).header('access-control-allow-origin', '*').send(''),
+      });
+
+      const response = await app.handle(makeRequest('/api/items', 'OPTIONS'));
+      expect(response.status).toBe(204);
+      expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    });
+  });
+
+  describe('route constraints', () => {
+    it('should route by host and expose the captured subdomain', async () => {
+      const app = createApp();
+      app.route({
+        method: 'GET',
+        url: '/',
+        constraints: { host: '*.example.com' },
+        handler: (req, reply) => reply.json({ tenant: req.captures.subdomain }),
+      });
+      app.get('/', (req, reply) => reply.json({ tenant: null }));
+
+      const tenant = await app.handle(new Request('http://acme.example.com/'));
+      expect(await tenant.json()).toEqual({ tenant: 'acme' });
+
+      const fallback = await app.handle(new Request('http://localhost/'));
+      expect(await fallback.json()).toEqual({ tenant: null });
+    });
+
+    it('should match the forwarded host behind a trusted proxy', async () => {
+      const app = createApp({ trustProxy: 'loopback' });
+      app.route({
+        method: 'GET',
+        url: '/',
+        constraints: { host: '*.example.com' },
+        handler: (req, reply) => reply.json({ tenant: req.captures.subdomain }),
+      });
+      app.get('/', (req, reply) => reply.json({ tenant: null }));
+      const forwarded = { 'x-forwarded-for': '203.0.113.9', 'x-forwarded-host': 'acme.example.com:443' };
+
+      const from = (remoteAddress: string) =>
+        app.handle(new Request('http://127.0.0.1:3000/', { headers: forwarded }), { remoteAddress });
+
+      expect(await (await from('127.0.0.1')).json()).toEqual({ tenant: 'acme' });
+      // Forwarding headers from an untrusted client are ignored
+      expect(await (await from('198.51.100.1')).json()).toEqual({ tenant: null });
+    });
+
+    it('should keep captures apart from request fields', async () => {
+      const app = createApp();
+      app.route({
+        method: 'GET',
+        url: '/',
+        constraints: { host: /^(?<method>[a-z]+)\.example\.com$/ },
+        handler: (req, reply) => reply.json({ method: req.method, captures: req.captures }),
+      });
+
+      const response = await app.handle(new Request('http://delete.example.com/'));
+      expect(await response.json()).toEqual({ method: 'GET', captures: { method: 'delete' } });
+    });
+
+    it('should route by Accept-Version', async () => {
+      const app = createApp();
+      for (const version of ['1.0.0', '2.1.0']) {
+        app.route({
+          method: 'GET',
+          url: '/items',
+          constraints: { version },
+          handler: (req, reply) => reply.json({ version }),
+        });
+      }
+
+      const response = await app.handle(
+        new Request('http://localhost/items', { headers: { 'accept-version': '2.x' } }),
+      );
+      expect(await response.json()).toEqual({ version: '2.1.0' });
+
+      const missing = await app.handle(
+        new Request('http://localhost/items', { headers: { 'accept-version': '3' } }),
+      );
+      expect(missing.status).toBe(404);
+    });
+
+    it('should accept custom strategies', async () => {
+      const app = createApp();
+      app.addConstraintStrategy({
+        name: 'device',
+        deriveConstraint: (request) =>
+          /mobile/i.test(request.headers.get('user-agent') ?? '') ? 'mobile' : 'desktop',
+        match: (value, derived) => value === derived,
+      });
+      app.route({
+        method: 'GET',
+        url: '/',
+        constraints: { device: 'mobile' },
+        handler: (req, reply) => reply.send('mobile'),
+      });
+      app.get('/', (req, reply) => reply.send('desktop'));
+
+      const mobile = await app.handle(
+        new Request('http://localhost/', { headers: { 'user-agent': 'Mobile Safari' } }),
+      );
+      expect(await mobile.text()).toBe('mobile');
+      expect(await (await app.handle(makeRequest('/'))).text()).toBe('desktop');
+    });
+  });
+
   describe('hooks', () => {
     it('should run onRequest hooks', async () => {
       const app = createApp();
@@ -142,6 +286,146 @@ describe('VuraApp', () => {
       ]);
     });
 
+    it('should let preSerialization hooks replace the payload', async () => {
+      const app = createApp();
+      app.addHook('preSerialization', (req, reply, payload) => ({ data: payload, meta: { version: 1 } }));
+      app.get('/users', (req, reply) => reply.status(201).header('x-total', '1').json([{ id: 1 }]));
+      app.get('/raw', () => new Response('raw'));
+
+      const response = await app.handle(makeRequest('/users'));
+      expect(response.status).toBe(201);
+      expect(response.headers.get('x-total')).toBe('1');
+      expect(await response.json()).toEqual({ data: [{ id: 1 }], meta: { version: 1 } });
+
+      // Responses not built from a value are left alone
+      expect(await (await app.handle(makeRequest('/raw'))).text()).toBe('raw');
+    });
+
+    it('should pass each onSend hook the previous Response', async () => {
+      const app = createApp();
+      app.addHook('onSend', async (req, reply, payload) => {
+        const body = await payload.text();
+        return new Response(body, {
+          status: payload.status,
+          headers: { ...Object.fromEntries(payload.headers), etag: `"${body.length}"` },
+        });
+      });
+      app.addHook('onSend', (req, reply, payload) => {
+        expect(payload.headers.get('etag')).toBe('"11"');
+      });
+      app.get('/test', (req, reply) => reply.json({ ok: true }));
+
+      const response = await app.handle(makeRequest('/test'));
+      expect(response.headers.get('etag')).toBe('"11"');
+      expect(await response.json()).toEqual({ ok: true });
+    });
+
+    it('should keep status and headers when onSend returns a body', async () => {
+      const app = createApp();
+      app.addHook('onSend', () => 'replaced');
+      app.get('/test', (req, reply) => reply.status(202).header('x-id', '7').send('original'));
+
+      const response = await app.handle(makeRequest('/test'));
+      expect(response.status).toBe(202);
+      expect(response.headers.get('x-id')).toBe('7');
+      expect(await response.text()).toBe('replaced');
+    });
+
+    it('should run onSend and onResponse for early hook responses and errors', async () => {
+      const app = createApp();
+      const responded: string[] = [];
+      app.addHook('onSend', (req, reply, payload) => {
+        const headers = new Headers(payload.headers);
+        headers.set('x-sent', String(payload.status));
+        return new Response(payload.body, { status: payload.status, headers });
+      });
+      app.addHook('onResponse', (req) => { responded.push(new URL(req.url).pathname); });
+      app.route({
+        method: 'GET',
+        url: '/early',
+        preHandler: (req, reply) => reply.status(401).json({ error: 'Unauthorized' }),
+        handler: () => 'unreachable',
+      });
+      app.get('/throws', () => { throw Object.assign(new Error('Bad input'), { statusCode: 400 }); });
+      app.route({
+        method: 'GET',
+        url: '/handled',
+        onError: (error, req, reply) => reply.status(503).json({ error: 'Unavailable' }),
+        handler: () => { throw new Error('boom'); },
+      });
+
+      const early = await app.handle(makeRequest('/early'));
+      expect(early.status).toBe(401);
+      expect(early.headers.get('x-sent')).toBe('401');
+
+      const thrown = await app.handle(makeRequest('/throws'));
+      expect(thrown.headers.get('x-sent')).toBe('400');
+      expect(await thrown.json()).toEqual({ error: 'Bad input', statusCode: 400 });
+
+      expect((await app.handle(makeRequest('/handled'))).headers.get('x-sent')).toBe('503');
+      expect(responded).toEqual(['/early', '/throws', '/handled']);
+    });
+
+    it('should send the error reply when an onSend hook throws', async () => {
+      const app = createApp();
+      const sent: number[] = [];
+      app.addHook('onSend', (req, reply, payload) => {
+        sent.push(payload.status);
+        if (payload.status === 200) throw new Error('onSend failed');
+      });
+      app.get('/test', () => 'ok');
+
+      const response = await app.handle(makeRequest('/test'));
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'onSend failed', statusCode: 500 });
+      // The error reply does not pass through onSend again
+      expect(sent).toEqual([200]);
+    });
+
+    it('should run onRequest and onSend for unmatched requests', async () => {
+      const app = createApp();
+      const seen: string[] = [];
+      app.addHook('onRequest', (req) => { seen.push(`root ${req.routeOptions.url}`); });
+      app.addHook('onSend', (req, reply, payload) => {
+        const headers = new Headers(payload.headers);
+        headers.set('x-scope', 'root');
+        return new Response(payload.body, { status: payload.status, headers });
+      });
+      app.get('/users', () => []);
+      await app.register(async (api) => {
+        api.addHook('onRequest', (req) => {
+          seen.push(`api ${req.routeOptions.url}`);
+          if (req.headers.has('x-block')) return new Response('Blocked', { status: 429 });
+        });
+        api.addHook('onSend', (req, reply, payload) => {
+          const headers = new Headers(payload.headers);
+          headers.set('x-scope', 'api');
+          return new Response(payload.body, { status: payload.status, headers });
+        });
+        api.get('/items', () => []);
+      }, { prefix: '/api' });
+
+      const notFound = await app.handle(makeRequest('/missing'));
+      expect(notFound.status).toBe(404);
+      expect(notFound.headers.get('x-scope')).toBe('root');
+
+      const notAllowed = await app.handle(makeRequest('/users', 'DELETE'));
+      expect(notAllowed.status).toBe(405);
+      expect(notAllowed.headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+      expect(notAllowed.headers.get('x-scope')).toBe('root');
+
+      // Paths under a prefix use that scope's hooks
+      const scoped = await app.handle(makeRequest('/api/missing'));
+      expect(scoped.status).toBe(404);
+      expect(scoped.headers.get('x-scope')).toBe('api');
+      const blocked = await app.handle(new Request('http://localhost/api/missing', { headers: { 'x-block': '1' } }));
+      expect(blocked.status).toBe(429);
+      expect(blocked.headers.get('x-scope')).toBe('api');
+
+      expect((await app.handle(makeRequest('/apis'))).headers.get('x-scope')).toBe('root');
+      expect(seen).toEqual(['root /*', 'root /*', 'root /api/*', 'api /api/*', 'root /api/*', 'api /api/*', 'root /*']);
+    });
+
     it('should allow early response from hooks', async () => {
       const app = createApp();
 
@@ -252,6 +536,93 @@ describe('VuraApp', () => {
       expect(hookOrder).toEqual(['root']);
     });
 
+    it('should encapsulate every hook type, including onError and onSend', async () => {
+      const app = createApp();
+      const calls: string[] = [];
+
+      const plugin: PluginFunction = async (app) => {
+        app.addHook('preParsing', async () => { calls.push('preParsing'); });
+        app.addHook('preValidation', async () => { calls.push('preValidation'); });
+        app.addHook('onSend', async () => { calls.push('onSend'); });
+        app.addHook('onResponse', async () => { calls.push('onResponse'); });
+        app.addHook('onError', async (error, req, reply) => {
+          return reply.status(418).json({ scoped: error.message });
+        });
+        app.get('/ok', (req, reply) => reply.json({ ok: true }));
+        app.get('/fail', () => {
+          throw new Error('boom');
+        });
+      };
+
+      await app.register(plugin, { prefix: '/scoped' });
+      app.get('/fail', () => {
+        throw new Error('boom');
+      });
+
+      await app.handle(makeRequest('/scoped/ok'));
+      expect(calls).toEqual(['preParsing', 'preValidation', 'onSend', 'onResponse']);
+
+      const scoped = await app.handle(makeRequest('/scoped/fail'));
+      expect(scoped.status).toBe(418);
+      expect(await scoped.json()).toEqual({ scoped: 'boom' });
+
+      // Root routes see none of the plugin's hooks
+      calls.length = 0;
+      const root = await app.handle(makeRequest('/fail'));
+      expect(root.status).toBe(500);
+      expect(calls).toEqual([]);
+    });
+
+    it('should apply hooks added after a route is declared, in registration order', async () => {
+      const app = createApp();
+      const order: string[] = [];
+
+      app.route({
+        method: 'GET',
+        url: '/late',
+        onRequest: async () => { order.push('route'); },
+        handler: (req, reply) => reply.json({ ok: true }),
+      });
+      app.addHook('onRequest', async () => { order.push('first'); });
+      app.addHook('onRequest', async () => { order.push('second'); });
+
+      await app.handle(makeRequest('/late'));
+      expect(order).toEqual(['first', 'second', 'route']);
+    });
+
+    it('should apply parent hooks added after a plugin registered', async () => {
+      const app = createApp();
+      const calls: string[] = [];
+
+      await app.register(async (app) => {
+        app.addHook('onRequest', async (req) => { calls.push(`plugin ${new URL(req.url).pathname}`); });
+        await app.register(async (app) => {
+          app.get('/x', (req, reply) => reply.json({ ok: true }));
+        }, { prefix: '/inner' });
+      }, { prefix: '/p' });
+      app.get('/y', (req, reply) => reply.json({ ok: true }));
+      app.addHook('onRequest', async (req) => { calls.push(`root ${new URL(req.url).pathname}`); });
+
+      await app.handle(makeRequest('/p/inner/x'));
+      await app.handle(makeRequest('/y'));
+      expect(calls).toEqual(['root /p/inner/x', 'plugin /p/inner/x', 'root /y']);
+    });
+
+    it('should reject the same route registered by two plugins', async () => {
+      const app = createApp();
+      const teamA: PluginFunction = async (app) => {
+        app.get('/users/:id', (req, reply) => reply.json({ team: 'a' }));
+      };
+      const teamB: PluginFunction = async (app) => {
+        app.get('/users/:userId', (req, reply) => reply.json({ team: 'b' }));
+      };
+
+      await app.register(teamA, { prefix: '/api' });
+      await expect(app.register(teamB, { prefix: '/api' })).rejects.toThrow(
+        'Route "GET /api/users/:userId" conflicts with "GET /api/users/:id"',
+      );
+    });
+
     it('should support nested plugins', async () => {
       const app = createApp();
 
@@ -278,6 +649,228 @@ describe('VuraApp', () => {
     });
   });
 
+  describe('plugin metadata', () => {
+    it('should let non-encapsulated plugins hook into the parent', async () => {
+      const app = createApp();
+      const calls: string[] = [];
+
+      const shared = definePlugin({ name: 'shared', encapsulate: false }, async (app) => {
+        app.decorate('db', { query: () => [] });
+        app.addHook('onRequest', async () => { calls.push('shared'); });
+      });
+
+      await app.register(shared);
+      app.get('/root', (req, reply) => reply.json({ ok: true }));
+
+      await app.handle(makeRequest('/root'));
+      expect(calls).toEqual(['shared']);
+      expect(app.hasPlugin('shared')).toBe(true);
+    });
+
+    it('should keep encapsulated named plugins in their own context', async () => {
+      const app = createApp();
+      const calls: string[] = [];
+
+      const scoped = definePlugin({ name: 'scoped' }, async (app) => {
+        app.addHook('onRequest', async () => { calls.push('scoped'); });
+      });
+
+      await app.register(scoped);
+      app.get('/root', (req, reply) => reply.json({ ok: true }));
+
+      await app.handle(makeRequest('/root'));
+      expect(calls).toEqual([]);
+      expect(app.hasPlugin('scoped')).toBe(true);
+    });
+
+    it('should fail when a dependency is missing', async () => {
+      const app = createApp();
+      const auth = definePlugin({ name: 'auth', dependencies: ['db'] }, async () => {});
+
+      await expect(app.register(auth)).rejects.toThrow(
+        'Plugin "auth" depends on "db", which must be registered first',
+      );
+    });
+
+    it('should resolve dependencies registered earlier', async () => {
+      const app = createApp();
+      const db = definePlugin({ name: 'db', encapsulate: false }, async (app) => {
+        app.decorate('db', {});
+      });
+      const auth = definePlugin(
+        { name: 'auth', dependencies: ['db'], decorators: { app: ['db'] } },
+        async () => {},
+      );
+
+      await app.register(db);
+      await expect(app.register(auth)).resolves.toBeUndefined();
+    });
+
+    it('should fail on duplicate registration', async () => {
+      const app = createApp();
+      const db = definePlugin({ name: 'db' }, async () => {});
+
+      await app.register(db);
+      await expect(app.register(db)).rejects.toThrow('Plugin "db" is already registered');
+    });
+
+    it('should fail when a required decorator is missing', async () => {
+      const app = createApp();
+      const plugin = definePlugin({ name: 'needs-user', decorators: { request: ['user'] } }, async () => {});
+
+      await expect(app.register(plugin)).rejects.toThrow(
+        'Plugin "needs-user" requires request decorator "user"',
+      );
+    });
+
+    it('should pass custom options to the plugin', async () => {
+      const app = createApp();
+      let received: unknown;
+
+      const plugin = definePlugin<{ secret: string }>({ name: 'opts' }, async (app, options) => {
+        received = options.secret;
+      });
+
+      await app.register(plugin, { secret: 's3cret' });
+      expect(received).toBe('s3cret');
+    });
+  });
+
+  describe('typed decorations', () => {
+    interface User {
+      id: string;
+      name: string;
+    }
+
+    it('should widen request and reply types for handlers', async () => {
+      const app = createApp()
+        .decorate('version', '1.2.3')
+        .decorateRequest('user', null as User | null)
+        .decorateRequest('startedAt', () => 1700000000000)
+        .decorateReply('locals', () => ({ theme: 'dark' }));
+
+      app.addHook('onRequest', async (req) => {
+        expectTypeOf(req.user).toEqualTypeOf<User | null>();
+        req.user = { id: '1', name: 'Ada' };
+      });
+
+      app.get('/me', (req, reply) => {
+        expectTypeOf(req.startedAt).toBeNumber();
+        expectTypeOf(reply.locals).toEqualTypeOf<{ theme: string }>();
+        return reply.json({ user: req.user, startedAt: req.startedAt, theme: reply.locals.theme });
+      });
+
+      const response = await app.handle(makeRequest('/me'));
+      expect(await response.json()).toEqual({
+        user: { id: '1', name: 'Ada' },
+        startedAt: 1700000000000,
+        theme: 'dark',
+      });
+    });
+
+    it('should widen plugin context types', async () => {
+      const app = createApp();
+
+      await app.register(async (plugin) => {
+        const scoped = plugin.decorateRequest('tenant', 'acme');
+        scoped.get('/tenant', (req, reply) => {
+          expectTypeOf(req.tenant).toEqualTypeOf<string>();
+          return reply.json({ tenant: req.tenant });
+        });
+      });
+
+      const response = await app.handle(makeRequest('/tenant'));
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('decorations', () => {
+    it('should apply request decorations added inside a plugin to its routes only', async () => {
+      const app = createApp();
+
+      await app.register(async (app) => {
+        app.decorateRequest('scope', 'admin');
+        app.decorateReply('layout', () => 'admin-layout');
+        app.get('/inside', (req, reply) => reply.json({ scope: req.scope, layout: (reply as any).layout }));
+      }, { prefix: '/admin' });
+
+      app.get('/outside', (req, reply) => reply.json({ scope: req.scope ?? null }));
+
+      const inside = await app.handle(makeRequest('/admin/inside'));
+      expect(await inside.json()).toEqual({ scope: 'admin', layout: 'admin-layout' });
+
+      const outside = await app.handle(makeRequest('/outside'));
+      expect(await outside.json()).toEqual({ scope: null });
+    });
+
+    it('should call request decoration factories per request', async () => {
+      const app = createApp();
+      let count = 0;
+      app.decorateRequest('counter', () => ++count);
+      app.get('/count', (req, reply) => reply.json({ counter: req.counter }));
+
+      await app.handle(makeRequest('/count'));
+      const response = await app.handle(makeRequest('/count'));
+      expect(await response.json()).toEqual({ counter: 2 });
+    });
+
+    it('should expose app decorations to plugins', async () => {
+      const db = { findUser: (id: string) => ({ id }) };
+      const app = createApp().decorate('db', db);
+      expect(app.db).toBe(db);
+
+      let fromProperty: unknown;
+      let fromGetter: unknown;
+      await app.register(async (plugin) => {
+        expectTypeOf(plugin.db).toEqualTypeOf<typeof db>();
+        fromProperty = plugin.db;
+        fromGetter = plugin.getDecoration('db');
+        // Nested plugins see the same types
+        await plugin.register(async (nested) => {
+          expectTypeOf(nested.getDecoration('db')).toEqualTypeOf<typeof db>();
+        });
+      });
+
+      expect(fromProperty).toBe(db);
+      expect(fromGetter).toBe(db);
+      expect(app.getDecoration('db')).toBe(db);
+    });
+
+    it('should share decorations from non-encapsulated plugins', async () => {
+      const app = createApp();
+      const dbPlugin = definePlugin({ name: 'db', encapsulate: false }, async (app) => {
+        app.decorate('db', 'connection');
+      });
+
+      await app.register(dbPlugin);
+
+      let seen: unknown;
+      await app.register(async (plugin) => {
+        seen = plugin.getDecoration('db');
+      });
+      expect(seen).toBe('connection');
+      expect((app as unknown as { db: string }).db).toBe('connection');
+
+      // Also one level down: a non-encapsulated plugin inside a plugin decorates that plugin
+      await app.register(async (plugin) => {
+        await plugin.register(definePlugin({ name: 'cache', encapsulate: false }, async (inner) => {
+          inner.decorate('cache', 'redis');
+        }));
+        seen = (plugin as unknown as { cache: string }).cache;
+      });
+      expect(seen).toBe('redis');
+      expect(app.getDecoration('cache')).toBeUndefined();
+      await expect(app.register(definePlugin({ name: 'bad', encapsulate: false }, async (inner) => {
+        inner.decorate('handle', 1);
+      }))).rejects.toThrow('Decoration "handle" conflicts with an existing property');
+    });
+
+    it('should refuse decorations that shadow the API', () => {
+      const app = createApp();
+      expect(() => app.decorate('register', {})).toThrow('Decoration "register" conflicts with an existing property');
+    });
+  });
+
   describe('reply helpers', () => {
     it('should support reply.html()', async () => {
       const app = createApp();
@@ -316,6 +909,229 @@ describe('VuraApp', () => {
     });
   });
 
+  describe('returned values', () => {
+    it('should serialize returned objects with reply status and headers', async () => {
+      const app = createApp();
+      app.post('/items', (req, reply) => {
+        reply.status(201).header('x-item', 'a');
+        return { id: 'a', tags: ['new'] };
+      });
+
+      const response = await app.handle(makeRequest('/items', 'POST', {}));
+      expect(response.status).toBe(201);
+      expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+      expect(response.headers.get('x-item')).toBe('a');
+      expect(await response.json()).toEqual({ id: 'a', tags: ['new'] });
+    });
+
+    it('should serialize arrays, strings and null', async () => {
+      const app = createApp();
+      app.get('/array', () => [1, 2, 3]);
+      app.get('/text', () => 'hello');
+      app.get('/null', () => null);
+
+      expect(await (await app.handle(makeRequest('/array'))).json()).toEqual([1, 2, 3]);
+
+      const text = await app.handle(makeRequest('/text'));
+      expect(text.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+      expect(await text.text()).toBe('hello');
+
+      const nothing = await app.handle(makeRequest('/null'));
+      expect(nothing.status).toBe(200);
+      expect(await nothing.text()).toBe('null');
+    });
+
+    it('should send bytes and streams as binary', async () => {
+      const app = createApp();
+      app.get('/bytes', () => new Uint8Array([1, 2, 3]));
+      app.get('/stream', () => new Blob(['streamed']).stream());
+
+      const bytes = await app.handle(makeRequest('/bytes'));
+      expect(bytes.headers.get('content-type')).toBe('application/octet-stream');
+      expect(new Uint8Array(await bytes.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+
+      const stream = await app.handle(makeRequest('/stream'));
+      expect(await stream.text()).toBe('streamed');
+    });
+
+    it('should stream async iterables', async () => {
+      const app = createApp();
+      app.get('/lines', (req, reply) => {
+        reply.header('content-type', 'application/x-ndjson');
+        return (async function* () {
+          yield '{"n":1}\n';
+          yield new TextEncoder().encode('{"n":2}\n');
+        })();
+      });
+
+      const response = await app.handle(makeRequest('/lines'));
+      expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+      expect(await response.text()).toBe('{"n":1}\n{"n":2}\n');
+    });
+
+    it('should apply the response schema and preSerialization hooks', async () => {
+      const app = createApp();
+      app.addHook('preSerialization', (req, reply, payload) => ({ data: payload }));
+      app.route({
+        method: 'GET',
+        url: '/me',
+        schema: {
+          response: {
+            200: {
+              validate: (input: unknown) => ({ success: true, data: input }),
+              toJsonSchema: () => ({
+                type: 'object',
+                properties: { data: { type: 'object', properties: { id: { type: 'string' } } } },
+              }),
+            },
+          },
+        },
+        handler: () => ({ id: '1', secret: 'x' }),
+      });
+
+      const response = await app.handle(makeRequest('/me'));
+      expect(await response.json()).toEqual({ data: { id: '1' } });
+    });
+
+    it('should still reply 204 when nothing is returned', async () => {
+      const app = createApp();
+      app.get('/', () => {});
+
+      const response = await app.handle(makeRequest('/'));
+      expect(response.status).toBe(204);
+    });
+  });
+
+  describe('cookies', () => {
+    it('should parse request cookies', async () => {
+      const app = createApp();
+      app.get('/', (req, reply) => reply.json(req.cookies));
+
+      const response = await app.handle(
+        new Request('http://localhost/', { headers: { cookie: 'theme=dark; lang=en' } }),
+      );
+      expect(await response.json()).toEqual({ theme: 'dark', lang: 'en' });
+    });
+
+    it('should send several Set-Cookie headers', async () => {
+      const app = createApp();
+      app.get('/', (req, reply) =>
+        reply
+          .setCookie('a', '1', { httpOnly: true })
+          .setCookie('b', '2')
+          .clearCookie('old', { path: '/app' })
+          .json({}),
+      );
+
+      const response = await app.handle(makeRequest('/'));
+      expect(response.headers.getSetCookie()).toEqual([
+        'a=1; Path=/; HttpOnly',
+        'b=2; Path=/',
+        'old=; Max-Age=0; Path=/app; Expires=Thu, 01 Jan 1970 00:00:00 GMT',
+      ]);
+    });
+
+    it('should round-trip signed and encrypted cookies', async () => {
+      const app = createApp({ cookieSecret: 'test-secret' });
+      app.get('/set', async (req, reply) => {
+        await reply.setSignedCookie('user', 'ada');
+        await reply.setEncryptedCookie('token', 'hidden');
+        return reply.send('ok');
+      });
+      app.get('/get', async (req, reply) =>
+        reply.json({ user: await req.signedCookie('user'), token: await req.encryptedCookie('token') }),
+      );
+
+      const set = await app.handle(makeRequest('/set'));
+      const cookie = set.headers
+        .getSetCookie()
+        .map((c) => c.split(';')[0])
+        .join('; ');
+
+      const response = await app.handle(new Request('http://localhost/get', { headers: { cookie } }));
+      expect(await response.json()).toEqual({ user: 'ada', token: 'hidden' });
+
+      const tampered = await app.handle(
+        new Request('http://localhost/get', { headers: { cookie: 'user=eve.AAAA; token=AAAA' } }),
+      );
+      expect(await tampered.json()).toEqual({ user: null, token: null });
+    });
+  });
+
+  describe('content negotiation', () => {
+    function negotiated() {
+      const app = createApp();
+      app.get('/report', (req, reply) =>
+        reply.format({
+          'application/json': () => reply.json({ total: 3 }),
+          'text/csv': () => reply.send('total\n3'),
+        }),
+      );
+      return app;
+    }
+
+    it('should pick the handler for the best accepted type', async () => {
+      const response = await negotiated().handle(
+        new Request('http://localhost/report', { headers: { accept: 'text/csv, application/json;q=0.5' } }),
+      );
+
+      expect(response.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+      expect(response.headers.get('vary')).toBe('Accept');
+      expect(await response.text()).toBe('total\n3');
+    });
+
+    it('should answer 406 when nothing matches', async () => {
+      const response = await negotiated().handle(
+        new Request('http://localhost/report', { headers: { accept: 'image/png' } }),
+      );
+
+      expect(response.status).toBe(406);
+      expect(response.headers.get('vary')).toBe('Accept');
+    });
+
+    it('should fall back to the default handler', async () => {
+      const app = createApp();
+      app.get('/', (req, reply) =>
+        reply.header('vary', 'Origin').format({
+          'text/html': () => reply.html('<p>hi</p>'),
+          default: () => reply.send('hi'),
+        }),
+      );
+
+      const response = await app.handle(new Request('http://localhost/', { headers: { accept: 'image/png' } }));
+      expect(await response.text()).toBe('hi');
+      expect(response.headers.get('vary')).toBe('Origin, Accept');
+    });
+
+    it('should expose Accept parsers on the request', async () => {
+      const app = createApp();
+      app.get('/', (req, reply) =>
+        reply.json({
+          type: req.accepts(['text/html', 'application/json']),
+          languages: req.acceptsLanguages(),
+          language: req.acceptsLanguages(['de', 'en-GB']),
+          encoding: req.acceptsEncodings(['br', 'gzip']),
+        }),
+      );
+
+      const response = await app.handle(
+        new Request('http://localhost/', {
+          headers: {
+            accept: 'application/json',
+            'accept-language': 'en;q=0.8, fr',
+            'accept-encoding': 'gzip, br;q=0.5',
+          },
+        }),
+      );
+      expect(await response.json()).toEqual({
+        type: 'application/json',
+        languages: ['fr', 'en'],
+        language: 'en-GB',
+        encoding: 'gzip',
+      });
+    });
+  });
+
   describe('body parsing', () => {
     it('should parse JSON bodies', async () => {
       const app = createApp();
@@ -329,6 +1145,226 @@ describe('VuraApp', () => {
     });
   });
 
+  describe('schema validation', () => {
+    // Minimal StandardSchema — accepted by fromSchema as-is
+    function objectSchema(required: string[], transform?: (input: any) => unknown) {
+      return {
+        validate(input: unknown) {
+          const obj = (input ?? {}) as Record<string, unknown>;
+          const missing = required.filter((key) => obj[key] === undefined);
+          if (missing.length > 0) {
+            return {
+              success: false,
+              issues: missing.map((key) => ({ message: `${key} is required`, path: [key] })),
+            };
+          }
+          return { success: true, data: transform ? transform(obj) : obj };
+        },
+        toJsonSchema: () => ({ type: 'object', required }),
+      };
+    }
+
+    it('should replace request data with validated output', async () => {
+      const app = createApp();
+      app.route({
+        method: 'POST',
+        url: '/items/:id',
+        schema: {
+          params: objectSchema(['id'], (p) => ({ id: Number(p.id) })),
+          querystring: objectSchema([], (q) => ({ ...q, page: Number(q.page ?? 1) })),
+          body: objectSchema(['name']),
+        },
+        handler: (req, reply) => reply.json({ params: req.params, query: req.query, body: req.parsedBody }),
+      });
+
+      const response = await app.handle(makeRequest('/items/7?page=3', 'POST', { name: 'Widget' }));
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        params: { id: 7 },
+        query: { page: 3 },
+        body: { name: 'Widget' },
+      });
+    });
+
+    it('should return 400 with schema issues on failure', async () => {
+      const app = createApp();
+      let reached = false;
+      app.route({
+        method: 'POST',
+        url: '/users',
+        schema: { body: objectSchema(['name', 'email']) },
+        handler: (req, reply) => {
+          reached = true;
+          return reply.json({});
+        },
+      });
+
+      const response = await app.handle(makeRequest('/users', 'POST', { name: 'Alice' }));
+      expect(response.status).toBe(400);
+      expect(reached).toBe(false);
+      expect(await response.json()).toEqual({
+        error: 'Request body validation failed',
+        statusCode: 400,
+        issues: [{ message: 'email is required', path: ['email'] }],
+      });
+    });
+
+    it('should validate after preValidation and before preHandler', async () => {
+      const app = createApp();
+      const order: string[] = [];
+
+      app.addHook('preValidation', async (req) => {
+        order.push('preValidation');
+        req.parsedBody = { name: 'from-hook' };
+      });
+      app.addHook('preHandler', async (req) => {
+        order.push(`preHandler:${(req.parsedBody as { name: string }).name}`);
+      });
+      app.route({
+        method: 'POST',
+        url: '/echo',
+        schema: { body: objectSchema(['name'], (b) => ({ name: String(b.name).toUpperCase() })) },
+        handler: (req, reply) => reply.json(req.parsedBody),
+      });
+
+      const response = await app.handle(makeRequest('/echo', 'POST', {}));
+      expect(response.status).toBe(200);
+      expect(order).toEqual(['preValidation', 'preHandler:FROM-HOOK']);
+    });
+
+    it('should pass validation errors to onError hooks', async () => {
+      const app = createApp();
+      app.addHook('onError', async (error, req, reply) => {
+        return reply.status(422).json({ message: error.message });
+      });
+      app.route({
+        method: 'GET',
+        url: '/search',
+        schema: { querystring: objectSchema(['q']) },
+        handler: (req, reply) => reply.json({}),
+      });
+
+      const response = await app.handle(makeRequest('/search'));
+      expect(response.status).toBe(422);
+      expect(await response.json()).toEqual({ message: 'Request querystring validation failed' });
+    });
+  });
+
+  describe('response schemas', () => {
+    const userSchema = {
+      validate(input: unknown) {
+        const user = input as Record<string, unknown>;
+        return typeof user?.id === 'string'
+          ? { success: true, data: user }
+          : { success: false, issues: [{ message: 'id must be a string', path: ['id'] }] };
+      },
+      toJsonSchema: () => ({
+        type: 'object',
+        properties: { id: { type: 'string' }, name: { type: 'string' } },
+      }),
+    };
+
+    it('should strip fields not declared in the response schema', async () => {
+      const app = createApp();
+      app.route({
+        method: 'GET',
+        url: '/me',
+        schema: { response: { 200: userSchema } },
+        handler: (req, reply) => reply.json({ id: '1', name: 'Ada', passwordHash: '$argon2id$...' }),
+      });
+
+      const response = await app.handle(makeRequest('/me'));
+      expect(await response.json()).toEqual({ id: '1', name: 'Ada' });
+    });
+
+    it('should pick the schema for the current status code', async () => {
+      const app = createApp();
+      app.route({
+        method: 'POST',
+        url: '/users',
+        schema: { response: { 201: userSchema } },
+        handler: (req, reply) => {
+          if (req.query.fail) {
+            return reply.status(409).send({ error: 'Conflict', detail: 'kept' });
+          }
+          return reply.status(201).send({ id: '2', name: 'Grace', role: 'admin' });
+        },
+      });
+
+      const created = await app.handle(makeRequest('/users', 'POST', {}));
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ id: '2', name: 'Grace' });
+
+      const conflict = await app.handle(makeRequest('/users?fail=1', 'POST', {}));
+      expect(conflict.status).toBe(409);
+      expect(await conflict.json()).toEqual({ error: 'Conflict', detail: 'kept' });
+    });
+
+    it('should fail mismatched responses when validateResponses is on', async () => {
+      const app = createApp({ validateResponses: true });
+      app.route({
+        method: 'GET',
+        url: '/me',
+        schema: { response: { 200: userSchema } },
+        handler: (req, reply) => reply.json({ id: 1 }),
+      });
+
+      const response = await app.handle(makeRequest('/me'));
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: 'Response for status 200 does not match its schema',
+        statusCode: 500,
+        issues: [{ message: 'id must be a string', path: ['id'] }],
+      });
+    });
+
+    it('should filter through the validator when the JSON form declares no fields', async () => {
+      // Zod-style: safeParse strips unknown keys, toJsonSchema falls back to { type: 'object' }
+      const zodUser = {
+        parse: (input: unknown) => input,
+        safeParse(input: unknown) {
+          const user = input as Record<string, unknown>;
+          return typeof user?.id === 'string'
+            ? { success: true, data: { id: user.id, name: user.name } }
+            : { success: false, error: { issues: [{ message: 'Expected string', path: ['id'] }] } };
+        },
+      };
+      const app = createApp();
+      app.route({
+        method: 'GET',
+        url: '/me',
+        schema: { response: { 200: zodUser } },
+        handler: (req) => (req.query.bad ? { id: 1, passwordHash: 'secret' } : { id: '1', name: 'Ada', passwordHash: 'secret' }),
+      });
+
+      expect(await (await app.handle(makeRequest('/me'))).json()).toEqual({ id: '1', name: 'Ada' });
+      // A reply the validator rejects cannot be filtered, so it goes out unfiltered
+      const bad = await app.handle(makeRequest('/me?bad=1'));
+      expect(bad.status).toBe(200);
+      expect(await bad.json()).toEqual({ id: 1, passwordHash: 'secret' });
+
+      const strict = createApp({ validateResponses: true });
+      strict.route({ method: 'GET', url: '/me', schema: { response: { 200: zodUser } }, handler: () => ({ id: 1 }) });
+      expect((await strict.handle(makeRequest('/me'))).status).toBe(500);
+    });
+
+    it('should serialize the validated output when validateResponses is on', async () => {
+      const trimmed = {
+        validate: (input: unknown) => ({ success: true, data: { ...(input as object), name: 'Ada' } }),
+        toJsonSchema: userSchema.toJsonSchema,
+      };
+      const app = createApp({ validateResponses: true });
+      app.route({
+        method: 'GET',
+        url: '/me',
+        schema: { response: { 200: trimmed } },
+        handler: () => ({ id: '1', name: '  Ada  ', passwordHash: 'secret' }),
+      });
+
+      expect(await (await app.handle(makeRequest('/me'))).json()).toEqual({ id: '1', name: 'Ada' });
+    });
+  });
+
   describe('fetch handler', () => {
     it('should expose a fetch-compatible handler', async () => {
       const app = createApp();
@@ -338,6 +1374,19 @@ describe('VuraApp', () => {
       const response = await handler(makeRequest('/test'));
       expect(response.status).toBe(200);
     });
+
+    it('should read the client address from Bun and Deno', async () => {
+      const app = createApp();
+      app.get('/ip', (req) => ({ ip: req.ip ?? null }));
+
+      const bunServer = { requestIP: (request: Request) => (request.url.endsWith('/ip') ? { address: '203.0.113.5' } : null) };
+      expect(await (await app.fetch(makeRequest('/ip'), bunServer)).json()).toEqual({ ip: '203.0.113.5' });
+
+      const denoInfo = { remoteAddr: { transport: 'tcp', hostname: '198.51.100.7', port: 50123 } };
+      expect(await (await app.fetch(makeRequest('/ip'), denoInfo)).json()).toEqual({ ip: '198.51.100.7' });
+
+      expect(await (await app.fetch(makeRequest('/ip'), {})).json()).toEqual({ ip: null });
+    });
   });
 
   describe('route listing', () => {
@@ -0,0 +1,207 @@
+// @vura/server — Tests for body parsing, limits and raw bodies
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import { MemoryStorage } from '../src/multipart.js';
+
+// ─── Helpers ───
+
+function post(url: string, body: BodyInit, contentType?: string): Request {
+  return new Request(`http://localhost${url}`, {
+    method: 'POST',
+    body,
+    headers: contentType ? { 'content-type': contentType } : {},
+  });
+}
+
+/** A body without Content-Length, so the limit has to be enforced while reading */
+function chunked(text: string): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 16) controller.enqueue(bytes.subarray(i, i + 16));
+      controller.close();
+    },
+  });
+}
+
+function streamRequest(url: string, text: string, contentType: string): Request {
+  return new Request(`http://localhost${url}`, {
+    method: 'POST',
+    body: chunked(text),
+    headers: { 'content-type': contentType },
+    duplex: 'half',
+  } as RequestInit);
+}
+
+// ─── Tests ───
+
+describe('body parsing', () => {
+  it('should parse JSON, +json, forms and text', async () => {
+    const app = createApp();
+    app.post('/echo', (request) => {
+      const body = request.parsedBody;
+      return { body: body instanceof FormData ? Object.fromEntries(body) : body };
+    });
+
+    const json = await app.handle(post('/echo', '{"a":1}', 'application/json; charset=utf-8'));
+    expect(await json.json()).toEqual({ body: { a: 1 } });
+
+    const problem = await app.handle(post('/echo', '{"b":2}', 'application/problem+json'));
+    expect(await problem.json()).toEqual({ body: { b: 2 } });
+
+    const form = await app.handle(post('/echo', 'a=1&b=two', 'application/x-www-form-urlencoded'));
+    expect(await form.json()).toEqual({ body: { a: '1', b: 'two' } });
+
+    const text = await app.handle(post('/echo', 'hello', 'text/plain'));
+    expect(await text.json()).toEqual({ body: 'hello' });
+  });
+
+  it('should reject malformed JSON with 400 before the handler runs', async () => {
+    const app = createApp();
+    let called = false;
+    app.post('/echo', () => {
+      called = true;
+      return { ok: true };
+    });
+
+    const response = await app.handle(post('/echo', '{"a":', 'application/json'));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON body', statusCode: 400 });
+    expect(called).toBe(false);
+
+    // An empty JSON body is not an error
+    const empty = await app.handle(post('/echo', '', 'application/json'));
+    expect(empty.status).toBe(200);
+  });
+
+  it('should use custom parsers, by type, pattern or catch-all', async () => {
+    const app = createApp();
+    app.addContentTypeParser('application/csv', (body) => body.split(',').map(Number));
+    app.addContentTypeParser(/^application\/x-/, { parseAs: 'buffer' }, (body) => body.byteLength);
+    app.addContentTypeParser('*', () => 'fallback');
+    app.post('/echo', (request) => ({ body: request.parsedBody }));
+
+    expect(await (await app.handle(post('/echo', '1,2,3', 'application/csv'))).json()).toEqual({ body: [1, 2, 3] });
+    expect(await (await app.handle(post('/echo', 'abcd', 'application/x-thing'))).json()).toEqual({ body: 4 });
+    expect(await (await app.handle(post('/echo', 'x', 'image/png'))).json()).toEqual({ body: 'fallback' });
+  });
+
+  it('should replace built-in parsers and scope parsers to register', async () => {
+    const app = createApp();
+    app.post('/echo', (request) => ({ body: request.parsedBody }));
+    await app.register(async (scope) => {
+      scope.addContentTypeParser('application/json', (body) => ({ raw: body }));
+      scope.post('/echo', (request) => ({ body: request.parsedBody }));
+    }, { prefix: '/scoped' });
+
+    expect(await (await app.handle(post('/echo', '{"a":1}', 'application/json'))).json()).toEqual({ body: { a: 1 } });
+    expect(await (await app.handle(post('/scoped/echo', '{"a":1}', 'application/json'))).json()).toEqual({
+      body: { raw: '{"a":1}' },
+    });
+  });
+
+  it('should send parser errors as 400 unless they carry a status', async () => {
+    const app = createApp();
+    app.addContentTypeParser('application/csv', () => {
+      throw new Error('bad row');
+    });
+    app.addContentTypeParser('application/x-teapot', () => {
+      throw Object.assign(new Error('I am a teapot'), { statusCode: 418 });
+    });
+    app.post('/echo', () => ({ ok: true }));
+
+    const csv = await app.handle(post('/echo', 'x', 'application/csv'));
+    expect(csv.status).toBe(400);
+    expect(await csv.json()).toEqual({ error: 'Invalid request body', statusCode: 400 });
+    expect((await app.handle(post('/echo', 'x', 'application/x-teapot'))).status).toBe(418);
+  });
+
+  it('should leave bodies without a parser unread', async () => {
+    const app = createApp();
+    app.post('/upload', async (request) => ({ size: (await request.arrayBuffer()).byteLength, parsed: request.parsedBody ?? null }));
+
+    const response = await app.handle(post('/upload', new Uint8Array(10), 'application/octet-stream'));
+    expect(await response.json()).toEqual({ size: 10, parsed: null });
+  });
+});
+
+describe('body limits', () => {
+  it('should answer 413 past the app limit, by Content-Length or while reading', async () => {
+    const app = createApp({ bodyLimit: 32 });
+    app.post('/echo', (request) => ({ body: request.parsedBody }));
+    const big = JSON.stringify({ text: 'x'.repeat(64) });
+
+    const declared = await app.handle(post('/echo', big, 'application/json'));
+    expect(declared.status).toBe(413);
+    expect(await declared.json()).toEqual({ error: 'Request body exceeds 32 bytes', statusCode: 413 });
+
+    expect((await app.handle(streamRequest('/echo', big, 'application/json'))).status).toBe(413);
+    expect((await app.handle(post('/echo', '{"a":1}', 'application/json'))).status).toBe(200);
+  });
+
+  it('should prefer the route limit, then the parser limit', async () => {
+    const app = createApp({ bodyLimit: 8 });
+    app.addContentTypeParser('text/csv', { bodyLimit: 64 }, (body) => body.split(','));
+    app.route({ method: 'POST', url: '/small', bodyLimit: 4, handler: () => ({ ok: true }) });
+    app.post('/echo', (request) => ({ body: request.parsedBody }));
+
+    expect((await app.handle(post('/echo', 'a,b,c,d,e,f', 'text/csv'))).status).toBe(200);
+    expect((await app.handle(post('/small', 'a,b,c', 'text/csv'))).status).toBe(413);
+    expect((await app.handle(post('/echo', 'more than eight', 'text/plain'))).status).toBe(413);
+  });
+
+  it('should enforce the limit on stream parsers', async () => {
+    const app = createApp({ bodyLimit: 32 });
+    app.addContentTypeParser('application/x-ndjson', { parseAs: 'stream' }, async (body) => {
+      let text = '';
+      for await (const chunk of body) text += new TextDecoder().decode(chunk);
+      return text.trim().split('\n').map((line) => JSON.parse(line));
+    });
+    app.post('/events', (request) => ({ events: request.parsedBody }));
+
+    const ok = await app.handle(streamRequest('/events', '{"a":1}\n{"a":2}\n', 'application/x-ndjson'));
+    expect(await ok.json()).toEqual({ events: [{ a: 1 }, { a: 2 }] });
+
+    const tooBig = await app.handle(streamRequest('/events', '{"a":1}\n'.repeat(8), 'application/x-ndjson'));
+    expect(tooBig.status).toBe(413);
+  });
+});
+
+describe('raw body', () => {
+  it('should keep the raw bytes alongside the parsed body', async () => {
+    const app = createApp();
+    app.route({
+      method: 'POST',
+      url: '/webhook',
+      rawBody: true,
+      handler: (request) => ({
+        raw: new TextDecoder().decode(request.rawBody),
+        parsed: request.parsedBody ?? null,
+      }),
+    });
+    app.post('/plain', (request) => ({ raw: request.rawBody ?? null }));
+
+    const json = await app.handle(post('/webhook', '{ "id": 1 }', 'application/json'));
+    expect(await json.json()).toEqual({ raw: '{ "id": 1 }', parsed: { id: 1 } });
+
+    // Unparsed types still get a raw body
+    const binary = await app.handle(post('/webhook', 'signed', 'application/octet-stream'));
+    expect(await binary.json()).toEqual({ raw: 'signed', parsed: null });
+
+    const plain = await app.handle(post('/plain', '{}', 'application/json'));
+    expect(await plain.json()).toEqual({ raw: null });
+  });
+
+  it('should cap raw multipart bodies by the app limit', async () => {
+    const app = createApp({ bodyLimit: 64, multipart: { storage: new MemoryStorage() } });
+    app.route({ method: 'POST', url: '/upload', rawBody: true, handler: (request) => ({ size: request.rawBody!.byteLength }) });
+
+    const part = (value: string) => `--b\r\ncontent-disposition: form-data; name="note"\r\n\r\n${value}\r\n--b--\r\n`;
+    const small = await app.handle(streamRequest('/upload', part('hi'), 'multipart/form-data; boundary=b'));
+    expect(await small.json()).toEqual({ size: part('hi').length });
+
+    const large = await app.handle(streamRequest('/upload', part('x'.repeat(100)), 'multipart/form-data; boundary=b'));
+    expect(large.status).toBe(413);
+  });
+});
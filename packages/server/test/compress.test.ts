@@ -0,0 +1,112 @@
+// @vura/server — Tests for the compression plugin
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import { compress } from '../src/compress.js';
+
+// ─── Helpers ───
+
+const large = 'vura '.repeat(1000);
+
+function get(url: string, headers: Record<string, string> = { 'accept-encoding': 'gzip, deflate' }): Request {
+  return new Request(`http://localhost${url}`, { headers });
+}
+
+async function decompress(response: Response, format: CompressionFormat): Promise<string> {
+  return new Response(response.body!.pipeThrough(new DecompressionStream(format))).text();
+}
+
+// ─── Tests ───
+
+describe('compress', () => {
+  it('should gzip large compressible responses', async () => {
+    const app = createApp();
+    await app.register(compress);
+    app.get('/text', () => large);
+
+    const response = await app.handle(get('/text'));
+    expect(response.headers.get('content-encoding')).toBe('gzip');
+    expect(response.headers.get('vary')).toBe('Accept-Encoding');
+    expect(response.headers.get('content-length')).toBeNull();
+    expect(await decompress(response, 'gzip')).toBe(large);
+  });
+
+  it('should follow the client preference among supported encodings', async () => {
+    const app = createApp();
+    await app.register(compress);
+    app.get('/json', () => ({ text: large }));
+
+    const response = await app.handle(get('/json', { 'accept-encoding': 'gzip;q=0.5, deflate' }));
+    expect(response.headers.get('content-encoding')).toBe('deflate');
+    expect(JSON.parse(await decompress(response, 'deflate'))).toEqual({ text: large });
+  });
+
+  it('should leave small, unaccepted and non-allowlisted responses uncompressed', async () => {
+    const app = createApp();
+    await app.register(compress, { threshold: 100 });
+    app.get('/small', () => 'tiny');
+    app.get('/text', () => large);
+    app.get('/png', (req, reply) => reply.header('content-type', 'image/png').send(new TextEncoder().encode(large)));
+
+    const small = await app.handle(get('/small'));
+    expect(small.headers.get('content-encoding')).toBeNull();
+    expect(small.headers.get('vary')).toBe('Accept-Encoding');
+    expect(await small.text()).toBe('tiny');
+
+    const identity = await app.handle(get('/text', {}));
+    expect(identity.headers.get('content-encoding')).toBeNull();
+    expect(await identity.text()).toBe(large);
+
+    const png = await app.handle(get('/png'));
+    expect(png.headers.get('content-encoding')).toBeNull();
+    expect(png.headers.get('vary')).toBeNull();
+  });
+
+  it('should skip encoded and no-transform responses', async () => {
+    const app = createApp();
+    await app.register(compress);
+    app.get('/encoded', (req, reply) => reply.header('content-encoding', 'br').send(large));
+    app.get('/raw', (req, reply) => reply.header('cache-control', 'no-transform').send(large));
+
+    expect((await app.handle(get('/encoded'))).headers.get('content-encoding')).toBe('br');
+    expect((await app.handle(get('/raw'))).headers.get('content-encoding')).toBeNull();
+  });
+
+  it('should compress streamed responses of unknown length', async () => {
+    const app = createApp();
+    await app.register(compress);
+    app.get('/stream', (req, reply) => {
+      reply.header('content-type', 'application/x-ndjson');
+      return (async function* () {
+        yield '{"n":1}\n';
+        yield '{"n":2}\n';
+      })();
+    });
+
+    const response = await app.handle(get('/stream'));
+    expect(response.headers.get('content-encoding')).toBe('gzip');
+    expect(await decompress(response, 'gzip')).toBe('{"n":1}\n{"n":2}\n');
+  });
+
+  it('should accept custom types and weaken strong ETags', async () => {
+    const app = createApp();
+    await app.register(compress, { types: ['application/octet-stream'], encodings: ['gzip'] });
+    app.get('/bin', (req, reply) => reply.header('etag', '"abc"').send(new TextEncoder().encode(large)));
+
+    const response = await app.handle(get('/bin'));
+    expect(response.headers.get('content-encoding')).toBe('gzip');
+    expect(response.headers.get('etag')).toBe('W/"abc"');
+  });
+
+  it('should only apply to routes in the registering context', async () => {
+    const app = createApp();
+    await app.register(async (api) => {
+      await api.register(compress);
+      api.get('/inner', () => large);
+    }, { prefix: '/api' });
+    app.get('/outer', () => large);
+
+    expect((await app.handle(get('/api/inner'))).headers.get('content-encoding')).toBe('gzip');
+    expect((await app.handle(get('/outer'))).headers.get('content-encoding')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// @vura/server — Tests for cookie parsing, serialization and WebCrypto helpers
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCookies,
+  serializeCookie,
+  signCookie,
+  unsignCookie,
+  encryptCookie,
+  decryptCookie,
+  writeNodeHeaders,
+} from '../src/cookie.js';
+import { createApp } from '../src/app.js';
+
+describe('parseCookies', () => {
+  it('should parse and decode cookie pairs', () => {
+    expect(parseCookies('a=1; b=hello%20world; c="quoted"')).toEqual({
+      a: '1',
+      b: 'hello world',
+      c: 'quoted',
+    });
+  });
+
+  it('should keep the first occurrence and skip malformed pairs', () => {
+    expect(parseCookies('id=1; junk; id=2; bad=%E0%A4%A')).toEqual({ id: '1', bad: '%E0%A4%A' });
+    expect(parseCookies(null)).toEqual({});
+  });
+
+  it('should treat Object.prototype names as ordinary cookies', async () => {
+    const cookies = parseCookies('toString=a; constructor=b; __proto__=c');
+    expect(cookies.toString).toBe('a');
+    expect(cookies.constructor).toBe('b');
+    expect(Object.keys(cookies)).toEqual(['toString', 'constructor', '__proto__']);
+
+    const app = createApp({ cookieSecret: 'secret' });
+    app.get('/', async (request) => ({ signed: await request.signedCookie('toString'), missing: await request.signedCookie('valueOf') }));
+    const response = await app.handle(new Request('http://localhost/', { headers: { cookie: 'toString=unsigned' } }));
+    expect(await response.json()).toEqual({ signed: null, missing: null });
+  });
+});
+
+describe('writeNodeHeaders', () => {
+  it('should write every Set-Cookie in one call', () => {
+    const written: Record<string, string | string[]> = {};
+    const headers = new Headers({ 'content-type': 'text/plain' });
+    headers.append('set-cookie', 'a=1');
+    headers.append('set-cookie', 'b=2');
+
+    writeNodeHeaders({ setHeader: (name, value) => (written[name] = value) }, headers);
+    expect(written).toEqual({ 'content-type': 'text/plain', 'set-cookie': ['a=1', 'b=2'] });
+  });
+});
+
+describe('serializeCookie', () => {
+  it('should serialize every attribute', () => {
+    const cookie = serializeCookie('sid', 'a b', {
+      domain: 'example.com',
+      path: '/app',
+      expires: new Date(Date.UTC(2030, 0, 1)),
+      maxAge: 3600,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax',
+      partitioned: true,
+      priority: 'high',
+    });
+
+    expect(cookie).toBe(
+      'sid=a%20b; Max-Age=3600; Domain=example.com; Path=/app; Expires=Tue, 01 Jan 2030 00:00:00 GMT; ' +
+        'HttpOnly; Secure; Partitioned; Priority=High; SameSite=Lax',
+    );
+  });
+
+  it('should default the path and reject header injection', () => {
+    expect(serializeCookie('a', '1')).toBe('a=1; Path=/');
+    expect(() => serializeCookie('a;b', '1')).toThrow('Invalid cookie name "a;b"');
+    expect(() => serializeCookie('a', '1', { path: '/; Domain=evil' })).toThrow('Invalid path for cookie "a"');
+  });
+});
+
+describe('signed cookies', () => {
+  it('should round-trip and reject tampering', async () => {
+    const signed = await signCookie('user-1', 'secret');
+
+    expect(await unsignCookie(signed, 'secret')).toBe('user-1');
+    expect(await unsignCookie(signed.replace('user-1', 'user-2'), 'secret')).toBeNull();
+    expect(await unsignCookie(signed, 'other')).toBeNull();
+  });
+
+  it('should verify with rotated secrets', async () => {
+    const signed = await signCookie('user-1', 'old');
+    expect(await unsignCookie(signed, ['new', 'old'])).toBe('user-1');
+  });
+
+  it('should require a secret', async () => {
+    await expect(signCookie('x', undefined)).rejects.toThrow('`cookieSecret`');
+  });
+});
+
+describe('encrypted cookies', () => {
+  it('should round-trip without exposing the value', async () => {
+    const sealed = await encryptCookie('{"cart":[1,2]}', 'secret');
+
+    expect(sealed).not.toContain('cart');
+    expect(await decryptCookie(sealed, ['rotated', 'secret'])).toBe('{"cart":[1,2]}');
+    expect(await decryptCookie(sealed, 'other')).toBeNull();
+    expect(await decryptCookie(`${sealed.slice(0, -2)}AA`, 'secret')).toBeNull();
+  });
+});
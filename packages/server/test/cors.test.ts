@@ -0,0 +1,185 @@
+// @vura/server — Tests for the CORS plugin
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import { cors } from '../src/cors.js';
+import { csrf } from '../src/csrf.js';
+import { rateLimit } from '../src/rate-limit.js';
+
+// ─── Helpers ───
+
+function request(url: string, method = 'GET', headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${url}`, { method, headers });
+}
+
+function preflight(url: string, origin: string, headers: Record<string, string> = {}): Request {
+  return request(url, 'OPTIONS', { origin, 'access-control-request-method': 'PUT', ...headers });
+}
+
+// ─── Tests ───
+
+describe('cors', () => {
+  it('should allow any origin by default', async () => {
+    const app = createApp();
+    await app.register(cors);
+    app.get('/items', () => ({ ok: true }));
+
+    const response = await app.handle(request('/items', 'GET', { origin: 'https://a.example' }));
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('vary')).toBeNull();
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('should leave requests without an Origin alone', async () => {
+    const app = createApp();
+    await app.register(cors);
+    app.get('/items', () => ({ ok: true }));
+
+    const response = await app.handle(request('/items'));
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should answer preflights for paths without an OPTIONS route', async () => {
+    const app = createApp();
+    await app.register(cors, { maxAge: 600 });
+    app.put('/items/:id', () => ({ ok: true }));
+
+    const response = await app.handle(
+      preflight('/items/1', 'https://a.example', { 'access-control-request-headers': 'content-type, x-token' }),
+    );
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('access-control-allow-methods')).toBe('GET, HEAD, PUT, PATCH, POST, DELETE');
+    expect(response.headers.get('access-control-allow-headers')).toBe('content-type, x-token');
+    expect(response.headers.get('access-control-max-age')).toBe('600');
+    expect(response.headers.get('vary')).toBe('Access-Control-Request-Headers');
+
+    const root = await app.handle(preflight('/', 'https://a.example'));
+    expect(root.status).toBe(204);
+    expect(root.headers.get('access-control-allow-origin')).toBe('*');
+  });
+
+  it('should leave OPTIONS routes to the app', async () => {
+    const app = createApp();
+    await app.register(cors);
+    app.route({ method: 'OPTIONS', url: '/*path', handler: () => new Response('options', { headers: { allow: 'GET' } }) });
+    app.get('/items', () => ({ ok: true }));
+
+    const own = await app.handle(request('/items', 'OPTIONS'));
+    expect(await own.text()).toBe('options');
+    const pre = await app.handle(preflight('/items', 'https://a.example'));
+    expect(pre.status).toBe(204);
+    expect(pre.headers.get('access-control-allow-origin')).toBe('*');
+  });
+
+  it('should pass responses through when it adds no header', async () => {
+    const app = createApp();
+    await app.register(cors);
+    const original = new Response('raw');
+    app.get('/raw', () => original);
+
+    expect(await app.handle(request('/raw'))).toBe(original);
+  });
+
+  it('should keep 404 and 405 for other methods', async () => {
+    const app = createApp();
+    await app.register(cors);
+    app.get('/items', () => ({ ok: true }));
+
+    expect((await app.handle(request('/missing'))).status).toBe(404);
+    expect((await app.handle(request('/items', 'DELETE'))).status).toBe(405);
+  });
+
+  it('should match origins from a list or regex and echo them', async () => {
+    const app = createApp();
+    await app.register(cors, { origin: ['https://app.example', /\.trusted\.dev$/] });
+    app.get('/items', () => ({ ok: true }));
+
+    const listed = await app.handle(request('/items', 'GET', { origin: 'https://app.example' }));
+    expect(listed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+    expect(listed.headers.get('vary')).toBe('Origin');
+
+    const matched = await app.handle(request('/items', 'GET', { origin: 'https://ci.trusted.dev' }));
+    expect(matched.headers.get('access-control-allow-origin')).toBe('https://ci.trusted.dev');
+
+    const refused = await app.handle(request('/items', 'GET', { origin: 'https://evil.example' }));
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+    expect(refused.headers.get('vary')).toBe('Origin');
+
+    const refusedPreflight = await app.handle(preflight('/items', 'https://evil.example'));
+    expect(refusedPreflight.status).toBe(204);
+    expect(refusedPreflight.headers.get('access-control-allow-methods')).toBeNull();
+  });
+
+  it('should support origin functions, credentials and exposed headers', async () => {
+    const app = createApp();
+    await app.register(cors, {
+      origin: async (origin) => origin.endsWith('.example'),
+      credentials: true,
+      exposedHeaders: ['x-total-count'],
+      allowedHeaders: ['content-type'],
+    });
+    app.get('/items', (req, reply) => reply.header('x-total-count', '2').send([1, 2]));
+
+    const response = await app.handle(request('/items', 'GET', { origin: 'https://a.example' }));
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://a.example');
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('access-control-expose-headers')).toBe('x-total-count');
+
+    const pre = await app.handle(preflight('/items', 'https://a.example', { 'access-control-request-headers': 'x-other' }));
+    expect(pre.headers.get('access-control-allow-headers')).toBe('content-type');
+    expect(pre.headers.get('access-control-allow-credentials')).toBe('true');
+  });
+
+  it('should echo the origin for a wildcard with credentials', async () => {
+    const app = createApp();
+    await app.register(cors, { credentials: true });
+    app.get('/items', () => ({ ok: true }));
+
+    const response = await app.handle(request('/items', 'GET', { origin: 'https://a.example' }));
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://a.example');
+    expect(response.headers.get('vary')).toBe('Origin');
+  });
+
+  it('should be scopable to a prefix', async () => {
+    const app = createApp();
+    await app.register(async (api) => {
+      await api.register(cors, { origin: 'https://app.example' });
+      api.get('/items', () => ({ ok: true }));
+    }, { prefix: '/api' });
+    app.get('/internal', () => ({ ok: true }));
+
+    const inside = await app.handle(request('/api/items', 'GET', { origin: 'https://app.example' }));
+    expect(inside.headers.get('access-control-allow-origin')).toBe('https://app.example');
+
+    const pre = await app.handle(preflight('/api/items', 'https://app.example'));
+    expect(pre.headers.get('access-control-allow-origin')).toBe('https://app.example');
+
+    const outside = await app.handle(request('/internal', 'GET', { origin: 'https://app.example' }));
+    expect(outside.headers.get('access-control-allow-origin')).toBeNull();
+    expect((await app.handle(preflight('/internal', 'https://app.example'))).headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+  });
+
+  it('should add headers to error, unmatched and short-circuited responses', async () => {
+    const app = createApp();
+    await app.register(cors, { origin: 'https://app.example' });
+    await app.register(rateLimit, { max: 3, window: 60_000, keyGenerator: () => 'client' });
+    await app.register(csrf, { pattern: 'double-submit', secret: 'a-secret-for-cors-tests' });
+    app.get('/invalid', () => { throw Object.assign(new Error('Bad input'), { statusCode: 400 }); });
+    app.post('/items', () => ({ ok: true }));
+    const origin = { origin: 'https://app.example' };
+
+    const responses = [
+      await app.handle(request('/invalid', 'GET', origin)),
+      await app.handle(request('/missing', 'GET', origin)),
+      // A cross-site POST without a token is refused by the CSRF check
+      await app.handle(request('/items', 'POST', { ...origin, 'sec-fetch-site': 'cross-site' })),
+      await app.handle(request('/invalid', 'GET', origin)),
+    ];
+    expect(responses.map((response) => response.status)).toEqual([400, 404, 403, 429]);
+    for (const response of responses) {
+      expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example');
+      expect(response.headers.get('vary')).toBe('Origin');
+    }
+  });
+});
@@ -0,0 +1,241 @@
+// @vura/server — Tests for CSRF protection
+
+import { describe, it, expect, vi } from 'vitest';
+import { createApp } from '../src/app.js';
+import { session, MemorySessionStore } from '../src/session.js';
+import { csrf, csrfProcedure, CsrfError } from '../src/csrf.js';
+
+// ─── Helpers ───
+
+const secret = 'a-secret-for-csrf-tests';
+
+/** Double-submit tests identify the client by a header standing in for authentication */
+const identify = (request: Request) => request.headers.get('x-user') ?? undefined;
+const alice = { 'x-user': 'alice' };
+
+function req(url: string, init: { method?: string; headers?: Record<string, string>; body?: BodyInit } = {}): Request {
+  return new Request(`http://localhost${url}`, init);
+}
+
+/** `name=value` pairs from Set-Cookie, joined for a Cookie header */
+function cookies(response: Response): string {
+  return response.headers.getSetCookie().map((c) => c.split(';')[0]).join('; ');
+}
+
+// ─── Tests ───
+
+describe('csrf (synchronizer)', () => {
+  async function createCsrfApp() {
+    const app = createApp();
+    await app.register(session, { secret });
+    await app.register(csrf);
+    app.get('/form', async (request) => ({ token: await request.csrfToken!() }));
+    app.post('/transfer', () => ({ ok: true }));
+    app.route({ method: 'POST', url: '/webhook', config: { csrf: false }, handler: () => ({ ok: true }) });
+    return app;
+  }
+
+  it('should accept the session token from a header or form field', async () => {
+    const app = await createCsrfApp();
+    const form = await app.handle(req('/form'));
+    const { token } = (await form.json()) as { token: string };
+    const cookie = cookies(form);
+
+    const viaHeader = await app.handle(req('/transfer', { method: 'POST', headers: { cookie, 'x-csrf-token': token } }));
+    expect(viaHeader.status).toBe(200);
+
+    const body = new URLSearchParams({ _csrf: token, amount: '10' });
+    const viaForm = await app.handle(
+      req('/transfer', { method: 'POST', headers: { cookie, 'content-type': 'application/x-www-form-urlencoded' }, body }),
+    );
+    expect(viaForm.status).toBe(200);
+  });
+
+  it('should reject missing or wrong tokens with 403', async () => {
+    const app = await createCsrfApp();
+    const form = await app.handle(req('/form'));
+    const cookie = cookies(form);
+
+    const missing = await app.handle(req('/transfer', { method: 'POST', headers: { cookie } }));
+    expect(missing.status).toBe(403);
+    expect(await missing.json()).toEqual({ error: 'Invalid CSRF token', statusCode: 403 });
+
+    const wrong = await app.handle(req('/transfer', { method: 'POST', headers: { cookie, 'x-csrf-token': 'nope' } }));
+    expect(wrong.status).toBe(403);
+  });
+
+  it('should block cross-origin requests even with a token', async () => {
+    const app = await createCsrfApp();
+    const form = await app.handle(req('/form'));
+    const { token } = (await form.json()) as { token: string };
+    const headers = { cookie: cookies(form), 'x-csrf-token': token };
+
+    const origin = await app.handle(
+      req('/transfer', { method: 'POST', headers: { ...headers, origin: 'https://evil.example' } }),
+    );
+    expect(origin.status).toBe(403);
+    expect(await origin.json()).toMatchObject({ error: 'Cross-origin request blocked' });
+
+    const site = await app.handle(req('/transfer', { method: 'POST', headers: { ...headers, 'sec-fetch-site': 'cross-site' } }));
+    expect(site.status).toBe(403);
+
+    const same = await app.handle(req('/transfer', { method: 'POST', headers: { ...headers, origin: 'http://localhost' } }));
+    expect(same.status).toBe(200);
+  });
+
+  it('should let exempt routes and safe methods through', async () => {
+    const app = await createCsrfApp();
+    expect((await app.handle(req('/webhook', { method: 'POST' }))).status).toBe(200);
+    expect((await app.handle(req('/form'))).status).toBe(200);
+  });
+
+  it('should require the session plugin', async () => {
+    const app = createApp();
+    await expect(app.register(csrf)).rejects.toThrow('needs the session plugin');
+  });
+});
+
+describe('csrf (double-submit)', () => {
+  async function createCsrfApp() {
+    const app = createApp();
+    await app.register(csrf, { pattern: 'double-submit', secret, identify, trustedOrigins: ['https://admin.example'] });
+    app.get('/form', async (request) => ({ token: await request.csrfToken!() }));
+    app.post('/transfer', () => ({ ok: true }));
+    return app;
+  }
+
+  it('should set a signed cookie that requests must echo', async () => {
+    const app = await createCsrfApp();
+    const form = await app.handle(req('/form', { headers: alice }));
+    const { token } = (await form.json()) as { token: string };
+    expect(form.headers.get('set-cookie')).toMatch(/^_csrf=[^;]+; Path=\/; SameSite=Lax$/);
+    const cookie = cookies(form);
+
+    const ok = await app.handle(
+      req('/transfer', { method: 'POST', headers: { ...alice, cookie, 'x-csrf-token': token, origin: 'https://admin.example' } }),
+    );
+    expect(ok.status).toBe(200);
+
+    // Reusing the cookie issues no new one
+    const again = await app.handle(req('/form', { headers: { ...alice, cookie } }));
+    expect(((await again.json()) as { token: string }).token).toBe(token);
+    expect(again.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should reject unsigned cookies even when echoed', async () => {
+    const app = await createCsrfApp();
+    const response = await app.handle(
+      req('/transfer', { method: 'POST', headers: { ...alice, cookie: '_csrf=forged', 'x-csrf-token': 'forged' } }),
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject a token issued to another client', async () => {
+    const app = await createCsrfApp();
+    // The attacker's own visit gets a validly signed token, which they plant in the victim's cookies
+    const attacker = await app.handle(req('/form', { headers: { 'x-user': 'mallory' } }));
+    const { token } = (await attacker.json()) as { token: string };
+
+    const tossed = await app.handle(
+      req('/transfer', { method: 'POST', headers: { ...alice, cookie: cookies(attacker), 'x-csrf-token': token } }),
+    );
+    expect(tossed.status).toBe(403);
+
+    // The victim's own visit replaces the planted cookie rather than reusing it
+    const form = await app.handle(req('/form', { headers: { ...alice, cookie: cookies(attacker) } }));
+    expect(((await form.json()) as { token: string }).token).not.toBe(token);
+    expect(form.headers.get('set-cookie')).not.toBeNull();
+  });
+
+  it('should need a client to issue or accept tokens', async () => {
+    const app = await createCsrfApp();
+    const form = await app.handle(req('/form'));
+    expect(form.status).toBe(500);
+
+    const issued = await app.handle(req('/form', { headers: alice }));
+    const { token } = (await issued.json()) as { token: string };
+    const anonymous = await app.handle(req('/transfer', { method: 'POST', headers: { cookie: cookies(issued), 'x-csrf-token': token } }));
+    expect(anonymous.status).toBe(403);
+  });
+
+  it('should bind tokens to the server-side session by default', async () => {
+    const app = createApp();
+    await app.register(session, { secret, store: new MemorySessionStore() });
+    await app.register(csrf, { pattern: 'double-submit', secret });
+    app.get('/form', async (request) => {
+      // Empty new sessions aren't saved, so give this one something to keep
+      request.session!.set('visited', true);
+      return { token: await request.csrfToken!() };
+    });
+    app.post('/transfer', () => ({ ok: true }));
+
+    const form = await app.handle(req('/form'));
+    const { token } = (await form.json()) as { token: string };
+    const cookie = cookies(form);
+    expect((await app.handle(req('/transfer', { method: 'POST', headers: { cookie, 'x-csrf-token': token } }))).status).toBe(200);
+
+    // Another session's id cookie with the same token
+    const other = cookies(await app.handle(req('/form')));
+    const sid = other.split('; ').find((pair) => pair.startsWith('sid='))!;
+    const mixed = `${sid}; ${cookie.split('; ').find((pair) => pair.startsWith('_csrf='))}`;
+    expect((await app.handle(req('/transfer', { method: 'POST', headers: { cookie: mixed, 'x-csrf-token': token } }))).status).toBe(403);
+  });
+
+  it('should compare the Origin with the forwarded protocol and host behind a proxy', async () => {
+    const app = createApp({ trustProxy: 'loopback' });
+    await app.register(csrf, { pattern: 'double-submit', secret, identify });
+    app.get('/form', async (request) => ({ token: await request.csrfToken!() }));
+    app.post('/transfer', () => ({ ok: true }));
+    const form = await app.handle(req('/form', { headers: alice }));
+    const { token } = (await form.json()) as { token: string };
+
+    // TLS ends at the proxy, which forwards to http://127.0.0.1:3000
+    const send = (origin: string, forwarded: Record<string, string>) =>
+      app.handle(
+        new Request('http://127.0.0.1:3000/transfer', {
+          method: 'POST',
+          headers: { ...alice, cookie: cookies(form), 'x-csrf-token': token, origin, ...forwarded },
+        }),
+        { remoteAddress: '127.0.0.1' },
+      );
+    const proxied = { 'x-forwarded-for': '203.0.113.9', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'shop.example' };
+
+    expect((await send('https://shop.example', proxied)).status).toBe(200);
+    expect((await send('https://evil.example', proxied)).status).toBe(403);
+    expect((await send('http://shop.example', proxied)).status).toBe(403);
+    // Without a trusted hop, the URL is the request's origin
+    expect((await send('https://shop.example', {})).status).toBe(403);
+    expect((await send('http://127.0.0.1:3000', {})).status).toBe(200);
+  });
+
+  it('should require a secret', async () => {
+    const app = createApp();
+    await expect(app.register(csrf, { pattern: 'double-submit' })).rejects.toThrow('needs a `secret`');
+  });
+});
+
+describe('csrfProcedure', () => {
+  it('should check mutations and let queries through', async () => {
+    const app = createApp();
+    await app.register(csrf, { pattern: 'double-submit', secret, identify });
+    app.get('/form', async (request) => ({ token: await request.csrfToken!() }));
+    const form = await app.handle(req('/form', { headers: alice }));
+    const { token } = (await form.json()) as { token: string };
+
+    const middleware = csrfProcedure({ secret, identify });
+    const next = vi.fn(async () => 'ok');
+
+    const mutation = req('/_rpc/transfer', { method: 'POST', headers: { ...alice, cookie: cookies(form), 'x-csrf-token': token } });
+    expect(await middleware({ ctx: { request: mutation }, next })).toBe('ok');
+    expect(await middleware({ ctx: { request: req('/_rpc/balance') }, next })).toBe('ok');
+
+    const forged = req('/_rpc/transfer', { method: 'POST', headers: { ...alice, cookie: cookies(form) } });
+    await expect(middleware({ ctx: { request: forged }, next })).rejects.toBeInstanceOf(CsrfError);
+    const otherClient = req('/_rpc/transfer', {
+      method: 'POST',
+      headers: { 'x-user': 'bob', cookie: cookies(form), 'x-csrf-token': token },
+    });
+    await expect(middleware({ ctx: { request: otherClient }, next })).rejects.toBeInstanceOf(CsrfError);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
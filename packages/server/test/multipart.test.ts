@@ -0,0 +1,293 @@
+// @vura/server — Tests for streaming multipart parsing
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApp } from '../src/app.js';
+import { parseMultipart, readMultipart, DiskStorage, MemoryStorage, MultipartLimitError } from '../src/multipart.js';
+import type { MultipartPart, MultipartStorage, StoredFile, UploadInfo } from '../src/multipart.js';
+
+// ─── Helpers ───
+
+/** Encode a form the way fetch does */
+async function encode(form: FormData): Promise<{ bytes: Uint8Array<ArrayBuffer>; contentType: string }> {
+  const request = new Request('http://localhost/', { method: 'POST', body: form });
+  return { bytes: new Uint8Array(await request.arrayBuffer()), contentType: request.headers.get('content-type')! };
+}
+
+/** Small chunks, so boundaries and headers straddle chunk edges */
+function chunked(bytes: Uint8Array, size = 7): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+function sampleForm(): FormData {
+  const form = new FormData();
+  form.append('title', 'Holiday');
+  form.append('tag', 'beach');
+  form.append('tag', 'sun');
+  form.append('photo', new File(['first file contents'], 'a.jpg', { type: 'image/jpeg' }));
+  form.append('photo', new File(['second'], 'b.png', { type: 'image/png' }));
+  return form;
+}
+
+async function upload(app: ReturnType<typeof createApp>, form: FormData, url = '/upload'): Promise<Response> {
+  return app.handle(new Request(`http://localhost${url}`, { method: 'POST', body: form }));
+}
+
+/** Keeps files in a Map — a stand-in for object storage */
+class MapStorage implements MultipartStorage {
+  files = new Map<string, string>();
+
+  async put(info: UploadInfo, stream: ReadableStream<Uint8Array>): Promise<string> {
+    const text = await new Response(stream).text();
+    const key = `${info.name}/${this.files.size}`;
+    this.files.set(key, text);
+    return key;
+  }
+
+  async remove(location: string): Promise<void> {
+    this.files.delete(location);
+  }
+}
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) await rm(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+// ─── Tests ───
+
+describe('parseMultipart', () => {
+  it('should yield fields and file streams in order', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const parts: unknown[] = [];
+    for await (const part of parseMultipart(chunked(bytes), contentType)) {
+      parts.push(part.type === 'field'
+        ? part
+        : { name: part.name, filename: part.filename, mimeType: part.mimeType, text: await new Response(part.stream).text() });
+    }
+
+    expect(parts).toEqual([
+      { type: 'field', name: 'title', value: 'Holiday' },
+      { type: 'field', name: 'tag', value: 'beach' },
+      { type: 'field', name: 'tag', value: 'sun' },
+      { name: 'photo', filename: 'a.jpg', mimeType: 'image/jpeg', text: 'first file contents' },
+      { name: 'photo', filename: 'b.png', mimeType: 'image/png', text: 'second' },
+    ]);
+  });
+
+  it('should skip files that are not read', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const names: string[] = [];
+    for await (const part of parseMultipart(chunked(bytes), contentType)) {
+      names.push(part.type === 'file' ? part.filename : part.value);
+    }
+    expect(names).toEqual(['Holiday', 'beach', 'sun', 'a.jpg', 'b.png']);
+  });
+
+  it('should enforce limits', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const drain = async (limits: Record<string, number>) => {
+      for await (const part of parseMultipart(chunked(bytes), contentType, { limits })) {
+        if (part.type === 'file') await new Response(part.stream).arrayBuffer();
+      }
+    };
+
+    await expect(drain({ fields: 2 })).rejects.toThrow('Too many fields (limit 2)');
+    await expect(drain({ files: 1 })).rejects.toThrow('Too many files (limit 1)');
+    await expect(drain({ fileSize: 10 })).rejects.toThrow('File "photo" exceeds 10 bytes');
+    await expect(drain({ fieldSize: 4 })).rejects.toBeInstanceOf(MultipartLimitError);
+  });
+
+  it('should reject malformed bodies', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const truncated = bytes.slice(0, bytes.length - 20);
+    const parts = parseMultipart(chunked(truncated), contentType);
+    await expect((async () => {
+      for await (const part of parts) {
+        if (part.type === 'file') await new Response(part.stream).arrayBuffer();
+      }
+    })()).rejects.toThrow('Unexpected end of multipart body');
+
+    await expect(parseMultipart(chunked(bytes), 'multipart/form-data').next()).rejects.toThrow('Missing multipart boundary');
+  });
+});
+
+describe('readMultipart', () => {
+  it('should stream files into a storage adapter', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const storage = new MapStorage();
+    const { body, files } = await readMultipart(chunked(bytes), contentType, { storage });
+
+    expect(body.title).toBe('Holiday');
+    expect(body.tag).toEqual(['beach', 'sun']);
+    expect(files.map((file) => [file.filename, file.size])).toEqual([['a.jpg', 19], ['b.png', 6]]);
+    expect([...storage.files.values()]).toEqual(['first file contents', 'second']);
+  });
+
+  it('should remove stored files when a later part fails or the request aborts', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const storage = new MapStorage();
+    await expect(readMultipart(chunked(bytes), contentType, { storage, limits: { fileSize: 10 } })).rejects.toThrow();
+    expect(storage.files.size).toBe(0);
+
+    // The body stalls partway through the second file, then the client goes away
+    const cut = bytes.length - 60;
+    const controller = new AbortController();
+    const stalled = new ReadableStream<Uint8Array>({
+      start(c) {
+        c.enqueue(bytes.slice(0, cut));
+      },
+    });
+    const reading = readMultipart(stalled, contentType, { storage, signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(storage.files.size).toBe(1);
+    controller.abort();
+    await expect(reading).rejects.toThrow();
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('should leave no partial files on disk', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vura-multipart-'));
+    const { bytes, contentType } = await encode(sampleForm());
+    await expect(readMultipart(chunked(bytes), contentType, {
+      storage: new DiskStorage(dir),
+      limits: { fileSize: 10 },
+    })).rejects.toBeInstanceOf(MultipartLimitError);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should hold files in memory with MemoryStorage', async () => {
+    const { bytes, contentType } = await encode(sampleForm());
+    const storage = new MemoryStorage();
+    const { files } = await readMultipart(chunked(bytes), contentType, { storage });
+
+    expect(files.map((file) => new TextDecoder().decode(file.data))).toEqual(['first file contents', 'second']);
+    expect(storage.get(files[0]!.location)).toBe(files[0]!.data);
+    await storage.remove(files[0]!.location);
+    expect(storage.get(files[0]!.location)).toBeUndefined();
+  });
+});
+
+describe('multipart bodies in VuraApp', () => {
+  it('should store files on disk for the handler and remove them afterwards', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vura-multipart-'));
+    const app = createApp({ multipart: { storage: new DiskStorage(dir), cleanup: true } });
+    app.post('/upload', async (request) => {
+      const body = request.parsedBody as { title: string; photo: StoredFile[] };
+      return {
+        title: body.title,
+        contents: await Promise.all(body.photo.map((file) => readFile(file.location, 'utf8'))),
+      };
+    });
+
+    const response = await upload(app, sampleForm());
+    expect(await response.json()).toEqual({ title: 'Holiday', contents: ['first file contents', 'second'] });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should keep uploads until a streamed reply has read them', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vura-multipart-'));
+    const app = createApp({ multipart: { storage: new DiskStorage(dir), cleanup: true } });
+    app.post('/upload', (request, reply) => reply.sendFile((request.parsedBody as { photo: StoredFile[] }).photo[0]!.location));
+
+    const response = await upload(app, sampleForm());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await readdir(dir)).toHaveLength(2);
+    expect(await response.text()).toBe('first file contents');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await readdir(dir)).toEqual([]);
+
+    // Cancelling the body releases them too
+    const cancelled = await upload(app, sampleForm());
+    await cancelled.body!.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should answer 413 past a limit and accept uploads larger than bodyLimit', async () => {
+    const storage = new MapStorage();
+    const app = createApp({ bodyLimit: 16, multipart: { storage, limits: { files: 1 } } });
+    app.post('/upload', () => ({ ok: true }));
+
+    const tooMany = await upload(app, sampleForm());
+    expect(tooMany.status).toBe(413);
+    expect(await tooMany.json()).toEqual({ error: 'Too many files (limit 1)', statusCode: 413 });
+    expect(storage.files.size).toBe(0);
+
+    const form = new FormData();
+    form.append('doc', new File(['x'.repeat(1000)], 'doc.txt'));
+    expect((await upload(app, form)).status).toBe(200);
+    // A custom storage keeps its files
+    expect(storage.files.size).toBe(1);
+  });
+
+  it('should keep uploads in memory where node:fs is unavailable', async () => {
+    vi.resetModules();
+    vi.doMock('node:fs/promises', () => {
+      throw new Error('No such module "node:fs/promises"');
+    });
+    try {
+      const { createApp: createEdgeApp } = await import('../src/app.js');
+      const app = createEdgeApp();
+      app.post('/upload', (request) => {
+        const body = request.parsedBody as { photo: StoredFile[] };
+        return body.photo.map((file) => new TextDecoder().decode(file.data));
+      });
+
+      const response = await upload(app, sampleForm());
+      expect(await response.json()).toEqual(['first file contents', 'second']);
+    } finally {
+      vi.doUnmock('node:fs/promises');
+      vi.resetModules();
+    }
+  });
+
+  it('should limit field values by default', async () => {
+    const app = createApp();
+    app.post('/upload', () => ({ ok: true }));
+
+    const form = new FormData();
+    form.append('note', 'x'.repeat(65_537));
+    // Sent as bytes: cancelling undici's own FormData stream throws after the test
+    const { bytes, contentType } = await encode(form);
+    const response = await app.handle(new Request('http://localhost/upload', {
+      method: 'POST',
+      body: bytes,
+      headers: { 'content-type': contentType },
+    }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ statusCode: 413 });
+  });
+
+  it('should let a scope stream parts itself', async () => {
+    const app = createApp();
+    await app.register(async (scope) => {
+      scope.addContentTypeParser('multipart/form-data', { parseAs: 'stream' }, (body, request) =>
+        parseMultipart(body, request.headers.get('content-type')!));
+      scope.post('/upload', async (request) => {
+        const sizes: Record<string, number> = {};
+        for await (const part of request.parsedBody as AsyncIterable<MultipartPart>) {
+          sizes[part.type === 'file' ? part.filename : part.name] = part.type === 'file'
+            ? (await new Response(part.stream).arrayBuffer()).byteLength
+            : part.value.length;
+        }
+        return sizes;
+      });
+    }, { prefix: '/stream' });
+
+    const response = await upload(app, sampleForm(), '/stream/upload');
+    expect(await response.json()).toEqual({ title: 7, tag: 3, 'a.jpg': 19, 'b.png': 6 });
+  });
+});
@@ -0,0 +1,52 @@
+// @vura/server — Tests for Accept header parsing and negotiation
+
+import { describe, it, expect } from 'vitest';
+import { parseAccept, negotiate, preferred } from '../src/negotiation.js';
+
+describe('parseAccept', () => {
+  it('should order entries by quality, then header order', () => {
+    const prefs = parseAccept('text/html;level=1, application/json;q=0.9, text/plain;q=0.9, */*;q=0.1');
+
+    expect(prefs.map((p) => p.value)).toEqual(['text/html', 'application/json', 'text/plain', '*/*']);
+    expect(prefs[0]!.params).toEqual({ level: '1' });
+    expect(prefs[3]!.quality).toBe(0.1);
+  });
+
+  it('should treat malformed quality as refusal', () => {
+    expect(parseAccept('gzip;q=abc')[0]!.quality).toBe(0);
+  });
+});
+
+describe('negotiate', () => {
+  it('should pick media types by quality and specificity', () => {
+    const accept = 'text/*;q=0.5, application/json, */*;q=0.1';
+
+    expect(negotiate(accept, ['text/html', 'application/json'], 'type')).toEqual(['application/json', 'text/html']);
+    expect(negotiate(accept, ['image/png'], 'type')).toEqual(['image/png']);
+    expect(negotiate('text/html, text/*;q=0', ['text/csv', 'text/html'], 'type')).toEqual(['text/html']);
+  });
+
+  it('should accept anything without a header', () => {
+    expect(negotiate(null, ['text/csv', 'application/json'], 'type')).toEqual(['text/csv', 'application/json']);
+  });
+
+  it('should match language prefixes', () => {
+    expect(negotiate('en-US, fr;q=0.8', ['fr', 'en'], 'language')).toEqual(['en', 'fr']);
+    expect(negotiate('en', ['de', 'en-GB'], 'language')).toEqual(['en-GB']);
+    expect(negotiate('de', ['en'], 'language')).toEqual([]);
+  });
+
+  it('should keep identity acceptable unless refused', () => {
+    expect(negotiate('gzip, br;q=0.8', ['br', 'gzip', 'identity'], 'encoding')).toEqual(['gzip', 'br', 'identity']);
+    expect(negotiate('gzip, identity;q=0', ['identity'], 'encoding')).toEqual([]);
+    expect(negotiate('br, *;q=0', ['gzip', 'identity'], 'encoding')).toEqual([]);
+    expect(negotiate(null, ['gzip', 'identity'], 'encoding')).toEqual(['identity']);
+  });
+});
+
+describe('preferred', () => {
+  it('should list accepted values without refused ones', () => {
+    expect(preferred('fr;q=0.5, en, de;q=0', 'language')).toEqual(['en', 'fr']);
+    expect(preferred(null, 'encoding')).toEqual(['identity']);
+  });
+});
@@ -0,0 +1,85 @@
+// @vura/server — Tests for trustProxy: client address, protocol and host
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import type { TrustProxy } from '../src/proxy.js';
+
+// ─── Helpers ───
+
+async function client(
+  trustProxy: TrustProxy | undefined,
+  headers: Record<string, string>,
+  remoteAddress: string | null = '10.0.0.2',
+): Promise<{ ip: string | null; ips: string[]; protocol: string; hostname: string }> {
+  const app = createApp({ trustProxy });
+  app.get('/', (request) => ({
+    ip: request.ip ?? null,
+    ips: request.ips,
+    protocol: request.protocol,
+    hostname: request.hostname,
+  }));
+  const response = await app.handle(new Request('http://internal:8080/', { headers }), { remoteAddress: remoteAddress ?? undefined });
+  return response.json();
+}
+
+const proxied = {
+  'x-forwarded-for': '203.0.113.9, 198.51.100.4, 10.0.0.1',
+  'x-forwarded-proto': 'https',
+  'x-forwarded-host': 'shop.example:443',
+};
+
+// ─── Tests ───
+
+describe('trustProxy', () => {
+  it('should use the socket and URL without trust', async () => {
+    expect(await client(undefined, proxied)).toEqual({ ip: '10.0.0.2', ips: [], protocol: 'http', hostname: 'internal' });
+    expect((await client(true, proxied, null)).ip).toBeNull();
+  });
+
+  it('should follow every hop when trusting all proxies', async () => {
+    expect(await client(true, proxied)).toEqual({
+      ip: '203.0.113.9',
+      ips: ['203.0.113.9', '198.51.100.4', '10.0.0.1'],
+      protocol: 'https',
+      hostname: 'shop.example',
+    });
+    // No forwarding headers: the socket is the client
+    expect((await client(true, {})).ip).toBe('10.0.0.2');
+  });
+
+  it('should trust a number of hops', async () => {
+    expect((await client(1, proxied)).ip).toBe('10.0.0.1');
+    expect(await client(2, proxied)).toMatchObject({ ip: '198.51.100.4', ips: ['198.51.100.4', '10.0.0.1'] });
+  });
+
+  it('should trust CIDR ranges and named ranges', async () => {
+    // The public 198.51.100.4 is not trusted, so it is the client even though it forwarded for another
+    expect((await client('10.0.0.0/8', proxied)).ip).toBe('198.51.100.4');
+    expect((await client(['uniquelocal', '198.51.100.0/24'], proxied)).ip).toBe('203.0.113.9');
+    expect((await client('loopback', proxied, '::ffff:127.0.0.1')).ip).toBe('10.0.0.1');
+    expect((await client('loopback', proxied)).protocol).toBe('http');
+    expect((await client('fd00::/8', { 'x-forwarded-for': '2001:db8::1' }, 'fd12::1')).ip).toBe('2001:db8::1');
+    expect(() => createApp({ trustProxy: '10.0.0.0/33' })).toThrow('Invalid trustProxy range "10.0.0.0/33"');
+    expect(() => createApp({ trustProxy: 'proxy.internal' })).toThrow('Invalid trustProxy address');
+  });
+
+  it('should trust by function', async () => {
+    const trust = (address: string, hop: number) => hop === 0 || address === '10.0.0.1';
+    expect((await client(trust, proxied)).ip).toBe('198.51.100.4');
+  });
+
+  it('should prefer the RFC 7239 Forwarded header', async () => {
+    const forwarded = {
+      ...proxied,
+      forwarded: 'for=192.0.2.60;proto=https;host=app.example, for="[2001:db8:cafe::17]:4711";proto=http;host="lb.internal"',
+    };
+    expect(await client(true, forwarded)).toEqual({
+      ip: '192.0.2.60',
+      ips: ['192.0.2.60', '2001:db8:cafe::17'],
+      protocol: 'https',
+      hostname: 'app.example',
+    });
+    // With one hop trusted, the client is the last proxy and the host is the one it was asked for
+    expect(await client(1, forwarded)).toMatchObject({ ip: '2001:db8:cafe::17', protocol: 'http', hostname: 'lb.internal' });
+  });
+});
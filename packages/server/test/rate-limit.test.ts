@@ -0,0 +1,196 @@
+// @vura/server — Tests for rate limiting
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createApp } from '../src/app.js';
+import { rateLimit, rateLimitProcedure, RateLimiter, RateLimitError, MemoryStore } from '../src/rate-limit.js';
+import type { RateLimitOptions, RateLimitProcedureOptions } from '../src/rate-limit.js';
+
+// ─── Helpers ───
+
+function request(url: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${url}`, { headers });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── Tests ───
+
+describe('RateLimiter', () => {
+  it('should count a fixed window and reset after it', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ max: 2, window: 1000 });
+
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false, remaining: 0, retryAfter: 1000 });
+    expect(await limiter.consume('b')).toMatchObject({ allowed: true });
+
+    vi.advanceTimersByTime(1000);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('should weight the previous window in a sliding window', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ max: 4, window: 1000, algorithm: 'sliding-window' });
+    for (let i = 0; i < 4; i++) {
+      await limiter.consume('a');
+    }
+
+    // Half way into the next window, half of the previous 4 still count
+    vi.setSystemTime(1500);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+    const refused = await limiter.consume('a');
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfter).toBe(250);
+  });
+
+  it('should allow bursts and refill a token bucket', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const limiter = new RateLimiter({ max: 3, window: 3000, algorithm: 'token-bucket' });
+    for (let i = 0; i < 3; i++) {
+      expect((await limiter.consume('a')).allowed).toBe(true);
+    }
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false, retryAfter: 1000 });
+
+    vi.advanceTimersByTime(1000);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should not let concurrent hits read the same count', async () => {
+    const limiter = new RateLimiter({ max: 2, window: 60_000 });
+    const results = await Promise.all(Array.from({ length: 10 }, () => limiter.consume('a')));
+    expect(results.filter((result) => result.allowed)).toHaveLength(2);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => new RateLimiter({ max: 0, window: 1000 })).toThrow('must be positive numbers');
+  });
+});
+
+describe('MemoryStore', () => {
+  /** Count a hit on `key` and return the new count */
+  async function hit(store: MemoryStore, key: string, ttl = 60_000): Promise<number> {
+    let value = 0;
+    await store.update(key, (state) => {
+      value = (state?.value ?? 0) + 1;
+      return { state: { value, time: 0 }, ttl };
+    });
+    return value;
+  }
+
+  it('should evict the least recently used keys', async () => {
+    const store = new MemoryStore({ max: 2 });
+    await hit(store, 'a');
+    await hit(store, 'b');
+    await hit(store, 'a');
+    await hit(store, 'c');
+
+    expect(store.size).toBe(2);
+    expect(await hit(store, 'a')).toBe(3);
+    expect(await hit(store, 'b')).toBe(1);
+  });
+
+  it('should expire entries after their ttl', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryStore();
+    await hit(store, 'a', 100);
+    vi.advanceTimersByTime(100);
+    expect(await hit(store, 'a', 100)).toBe(1);
+  });
+
+  it('should update a key from its current state', async () => {
+    const store = new MemoryStore();
+    await hit(store, 'a');
+    expect(await hit(store, 'a')).toBe(2);
+    await store.delete('a');
+    expect(await hit(store, 'a')).toBe(1);
+  });
+});
+
+describe('rateLimit plugin', () => {
+  it('should send RateLimit headers and 429 with Retry-After', async () => {
+    const app = createApp();
+    await app.register(rateLimit, { max: 2, window: 60_000, keyGenerator: (req) => req.headers.get('x-client')! });
+    app.get('/', () => ({ ok: true }));
+
+    const first = await app.handle(request('/', { 'x-client': 'a' }));
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ratelimit-limit')).toBe('2');
+    expect(first.headers.get('ratelimit-remaining')).toBe('1');
+    expect(first.headers.get('ratelimit-reset')).toBe('60');
+
+    await app.handle(request('/', { 'x-client': 'a' }));
+    const refused = await app.handle(request('/', { 'x-client': 'a' }));
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('retry-after')).toBe('60');
+    expect(await refused.json()).toEqual({ error: 'Too Many Requests', statusCode: 429 });
+
+    expect((await app.handle(request('/', { 'x-client': 'b' }))).status).toBe(200);
+  });
+
+  it('should refuse concurrent requests over the limit', async () => {
+    const app = createApp();
+    await app.register(rateLimit, { max: 2, window: 60_000, keyGenerator: () => 'client' });
+    app.get('/', () => ({ ok: true }));
+
+    const responses = await Promise.all(Array.from({ length: 10 }, () => app.handle(request('/'))));
+    expect(responses.filter((response) => response.status === 200)).toHaveLength(2);
+  });
+
+  it('should require a keyGenerator', async () => {
+    const app = createApp();
+    const rule = { max: 2, window: 60_000 };
+    await expect(app.register(rateLimit, rule as RateLimitOptions)).rejects.toThrow('rateLimit needs a `keyGenerator`');
+    expect(() => rateLimitProcedure(rule as RateLimitProcedureOptions)).toThrow('rateLimitProcedure needs a `keyGenerator`');
+  });
+
+  it('should apply per-route overrides with their own counter', async () => {
+    const app = createApp();
+    await app.register(rateLimit, { max: 100, window: 60_000, keyGenerator: () => 'client' });
+    app.route({ method: 'POST', url: '/login', config: { rateLimit: { max: 1 } }, handler: () => ({ ok: true }) });
+    app.route({ method: 'POST', url: '/webhook', config: { rateLimit: false }, handler: () => ({ ok: true }) });
+    app.get('/', () => ({ ok: true }));
+
+    const login = () => app.handle(new Request('http://localhost/login', { method: 'POST' }));
+    expect((await login()).status).toBe(200);
+    expect((await login()).status).toBe(429);
+    expect((await app.handle(request('/'))).headers.get('ratelimit-remaining')).toBe('99');
+
+    const webhook = await app.handle(new Request('http://localhost/webhook', { method: 'POST' }));
+    expect(webhook.headers.get('ratelimit-limit')).toBeNull();
+  });
+
+  it('should skip requests and omit headers when asked', async () => {
+    const app = createApp();
+    await app.register(rateLimit, {
+      max: 1,
+      window: 60_000,
+      headers: false,
+      keyGenerator: () => 'client',
+      skip: (req) => req.headers.has('x-internal'),
+    });
+    app.get('/', () => ({ ok: true }));
+
+    expect((await app.handle(request('/'))).headers.get('ratelimit-limit')).toBeNull();
+    expect((await app.handle(request('/', { 'x-internal': '1' }))).status).toBe(200);
+    expect((await app.handle(request('/'))).status).toBe(429);
+  });
+});
+
+describe('rateLimitProcedure', () => {
+  it('should throw a RateLimitError with headers once the limit is hit', async () => {
+    const middleware = rateLimitProcedure({ max: 1, window: 60_000, keyGenerator: () => 'a' });
+    const ctx = { request: request('/_rpc/user.get') };
+    const next = vi.fn(async () => 'ok');
+
+    expect(await middleware({ ctx, next })).toBe('ok');
+    const error = await middleware({ ctx, next }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).statusCode).toBe(429);
+    expect((error as RateLimitError).headers['retry-after']).toBe('60');
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,7 @@
 // @vura/server — Tests for Router
 
 import { describe, it, expect } from 'vitest';
-import { Router } from '../src/router.js';
+import { Router, RouteConflictError } from '../src/router.js';
 
 describe('Router', () => {
   describe('static routes', () => {
@@ -107,6 +107,413 @@ describe('Router', () => {
     });
   });
 
+  describe('regex constraints', () => {
+    it('should only match values satisfying the constraint', () => {
+      const router = new Router();
+      router.addRoute('GET', '/users/:id(\\d+)', (() => {}) as any);
+
+      expect(router.match('GET', '/users/42')!.params).toEqual({ id: '42' });
+      expect(router.match('GET', '/users/abc')).toBeNull();
+    });
+
+    it('should fall back to a plain param when the constraint fails', () => {
+      const router = new Router();
+      const byId = () => {};
+      const bySlug = () => {};
+
+      router.addRoute('GET', '/posts/:slug', bySlug as any);
+      router.addRoute('GET', '/posts/:id(\\d+)', byId as any);
+
+      expect(router.match('GET', '/posts/7')!.handler).toBe(byId);
+      expect(router.match('GET', '/posts/hello-world')!.handler).toBe(bySlug);
+    });
+
+    it('should support nested groups in the constraint', () => {
+      const router = new Router();
+      router.addRoute('GET', '/v/:version((\\d+)\\.(\\d+))', (() => {}) as any);
+
+      expect(router.match('GET', '/v/1.2')!.params).toEqual({ version: '1.2' });
+      expect(router.match('GET', '/v/1')).toBeNull();
+    });
+  });
+
+  describe('optional params', () => {
+    it('should match with and without the optional segment', () => {
+      const router = new Router();
+      router.addRoute('GET', '/posts/:page?', (() => {}) as any);
+
+      expect(router.match('GET', '/posts')!.params).toEqual({});
+      expect(router.match('GET', '/posts/3')!.params).toEqual({ page: '3' });
+      expect(router.getAllRoutes().length).toBe(1);
+    });
+
+    it('should support optional constrained params', () => {
+      const router = new Router();
+      router.addRoute('GET', '/archive/:year(\\d{4})?', (() => {}) as any);
+
+      expect(router.match('GET', '/archive')).not.toBeNull();
+      expect(router.match('GET', '/archive/2024')!.params).toEqual({ year: '2024' });
+      expect(router.match('GET', '/archive/24')).toBeNull();
+    });
+
+    it('should reject optional params before the last segment', () => {
+      const router = new Router();
+      expect(() => router.addRoute('GET', '/a/:b?/c', (() => {}) as any)).toThrow(
+        'Optional parameter must be the last segment in "/a/:b?/c"',
+      );
+    });
+  });
+
+  describe('multi-param segments', () => {
+    it('should split params around separators', () => {
+      const router = new Router();
+      router.addRoute('GET', '/flights/:from-:to', (() => {}) as any);
+
+      expect(router.match('GET', '/flights/LAX-JFK')!.params).toEqual({ from: 'LAX', to: 'JFK' });
+      expect(router.match('GET', '/flights/LAX')).toBeNull();
+    });
+
+    it('should give the last dot to the extension', () => {
+      const router = new Router();
+      router.addRoute('GET', '/files/:name.:ext', (() => {}) as any);
+
+      expect(router.match('GET', '/files/archive.tar.gz')!.params).toEqual({ name: 'archive.tar', ext: 'gz' });
+    });
+
+    it('should mix static text and constrained params', () => {
+      const router = new Router();
+      router.addRoute('GET', '/api/v:major(\\d+)/status', (() => {}) as any);
+
+      expect(router.match('GET', '/api/v2/status')!.params).toEqual({ major: '2' });
+      expect(router.match('GET', '/api/vx/status')).toBeNull();
+    });
+
+    it('should treat a double colon as a literal colon', () => {
+      const router = new Router();
+      router.addRoute('GET', '/rpc/user::get', (() => {}) as any);
+
+      expect(router.match('GET', '/rpc/user:get')).not.toBeNull();
+    });
+  });
+
+  describe('backtracking', () => {
+    it('should backtrack out of a pattern branch that fails deeper', () => {
+      const router = new Router();
+      const numeric = () => {};
+      const plain = () => {};
+
+      router.addRoute('GET', '/a/:n(\\d+)/numeric', numeric as any);
+      router.addRoute('GET', '/a/:x/plain', plain as any);
+
+      const match = router.match('GET', '/a/1/plain');
+      expect(match!.handler).toBe(plain);
+      expect(match!.params).toEqual({ x: '1' });
+    });
+
+    it('should backtrack from a static branch to a multi-param segment', () => {
+      const router = new Router();
+      const staticHandler = () => {};
+      const rangeHandler = () => {};
+
+      router.addRoute('GET', '/r/latest/info', staticHandler as any);
+      router.addRoute('GET', '/r/:from-:to', rangeHandler as any);
+
+      expect(router.match('GET', '/r/latest/info')!.handler).toBe(staticHandler);
+      expect(router.match('GET', '/r/lat-est')!.params).toEqual({ from: 'lat', to: 'est' });
+    });
+
+    it('should fall through params to the wildcard', () => {
+      const router = new Router();
+      const fallback = () => {};
+
+      router.addRoute('GET', '/docs/:page(\\w+)/edit', (() => {}) as any);
+      router.addRoute('GET', '/docs/*rest', fallback as any);
+
+      const match = router.match('GET', '/docs/intro/view');
+      expect(match!.handler).toBe(fallback);
+      expect(match!.params).toEqual({ rest: 'intro/view' });
+    });
+  });
+
+  describe('decoding', () => {
+    it('should URL-decode param values', () => {
+      const router = new Router();
+      router.addRoute('GET', '/tags/:tag', (() => {}) as any);
+      router.addRoute('GET', '/search/:q(caf\u00e9)', (() => {}) as any);
+
+      expect(router.match('GET', '/tags/hello%20world')!.params).toEqual({ tag: 'hello world' });
+      expect(router.match('GET', '/search/caf%C3%A9')!.params).toEqual({ q: 'café' });
+    });
+
+    it('should keep malformed escapes as-is', () => {
+      const router = new Router();
+      router.addRoute('GET', '/tags/:tag', (() => {}) as any);
+
+      expect(router.match('GET', '/tags/100%')!.params).toEqual({ tag: '100%' });
+    });
+  });
+
+  describe('method-aware matching', () => {
+    it('should fall back to a parametric route registered for the method', () => {
+      const router = new Router();
+      const staticHandler = () => {};
+      const paramHandler = () => {};
+
+      router.addRoute('GET', '/users/me', staticHandler as any);
+      router.addRoute('DELETE', '/users/:id', paramHandler as any);
+
+      const match = router.match('DELETE', '/users/me');
+      expect(match).not.toBeNull();
+      expect(match!.handler).toBe(paramHandler);
+      expect(match!.params).toEqual({ id: 'me' });
+    });
+
+    it('should report allowed methods for a path', () => {
+      const router = new Router();
+      router.addRoute('POST', '/users', (() => {}) as any);
+      router.addRoute('GET', '/users', (() => {}) as any);
+      router.addRoute('DELETE', '/users/:id', (() => {}) as any);
+
+      expect(router.allowedMethods('/users')).toEqual(['GET', 'HEAD', 'POST']);
+      expect(router.allowedMethods('/users/1')).toEqual(['DELETE']);
+      expect(router.allowedMethods('/posts')).toEqual([]);
+    });
+  });
+
+  describe('conflict detection', () => {
+    it('should throw on duplicate registrations with both URLs', () => {
+      const router = new Router();
+      router.addRoute('GET', '/users/:id', (() => {}) as any);
+
+      expect(() => router.addRoute('GET', '/users/:userId', (() => {}) as any)).toThrow(
+        'Route "GET /users/:userId" conflicts with "GET /users/:id": both match the same requests',
+      );
+    });
+
+    it('should expose both routes on the conflict error', () => {
+      const router = new Router();
+      router.addRoute('GET', '/posts', (() => {}) as any);
+
+      try {
+        router.addRoute('GET', '/posts/:page?', (() => {}) as any);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(RouteConflictError);
+        expect((error as RouteConflictError).existing.url).toBe('/posts');
+        expect((error as RouteConflictError).route.url).toBe('/posts/:page?');
+      }
+    });
+
+    it('should warn when param names differ at the same position', () => {
+      const warnings: string[] = [];
+      const router = new Router({ onWarning: (message) => warnings.push(message) });
+
+      router.addRoute('GET', '/users/:id', (() => {}) as any);
+      router.addRoute('DELETE', '/users/:userId', (() => {}) as any);
+
+      expect(warnings).toEqual([
+        'Route "DELETE /users/:userId" names parameter ":userId" where "/users/:id" uses ":id"; requests will receive params.id',
+      ]);
+    });
+
+    it('should warn when wildcard names differ', () => {
+      const warnings: string[] = [];
+      const router = new Router({ onWarning: (message) => warnings.push(message) });
+
+      router.addRoute('GET', '/files/*path', (() => {}) as any);
+      router.addRoute('PUT', '/files/*rest', (() => {}) as any);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('"/files/*path"');
+    });
+
+    it('should warn when a catch-all pattern shadows a later one', () => {
+      const warnings: string[] = [];
+      const router = new Router({ onWarning: (message) => warnings.push(message) });
+
+      router.addRoute('GET', '/items/:slug([a-z-]+)', (() => {}) as any);
+      router.addRoute('GET', '/items/:id(\\d+)', (() => {}) as any);
+      expect(warnings).toEqual([]);
+
+      router.addRoute('GET', '/files/:any(.+)', (() => {}) as any);
+      router.addRoute('GET', '/files/:id(\\d+)', (() => {}) as any);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('Route "GET /files/:id(\\d+)" is shadowed by "/files/:any(.+)"');
+      expect(router.match('GET', '/files/7')?.route.url).toBe('/files/:any(.+)');
+    });
+
+    it('should conflict on constrained params that differ only in name', () => {
+      const warnings: string[] = [];
+      const router = new Router({ onWarning: (message) => warnings.push(message) });
+      router.addRoute('GET', '/users/:id(\\d+)', (() => {}) as any);
+
+      expect(() => router.addRoute('GET', '/users/:uid(\\d+)', (() => {}) as any)).toThrow(RouteConflictError);
+      // The duplicate throws without also warning about the name
+      expect(warnings).toEqual([]);
+
+      router.addRoute('DELETE', '/users/:uid(\\d+)', (() => {}) as any);
+      expect(warnings).toHaveLength(1);
+      expect(router.match('DELETE', '/users/7')?.params).toEqual({ id: '7' });
+    });
+
+    it('should not let a wildcard shadow routes registered after it', () => {
+      const router = new Router();
+      router.addRoute('GET', '/files/*path', (() => {}) as any);
+      router.addRoute('GET', '/files/:id', (() => {}) as any);
+      router.addRoute('GET', '/files/readme', (() => {}) as any);
+
+      expect(router.match('GET', '/files/readme')?.route.url).toBe('/files/readme');
+      expect(router.match('GET', '/files/42')?.route.url).toBe('/files/:id');
+      expect(router.match('GET', '/files/a/b')?.route.url).toBe('/files/*path');
+    });
+
+    it('should reject segments after a wildcard', () => {
+      const router = new Router();
+
+      expect(() => router.addRoute('GET', '/files/*path/edit', (() => {}) as any)).toThrow(
+        'Wildcard "*path" must be the last segment in "/files/*path/edit"; the segments after it can never match',
+      );
+    });
+
+    it('should allow the same path for different methods', () => {
+      const router = new Router({ onWarning: () => expect.unreachable() });
+      router.addRoute('GET', '/users/:id', (() => {}) as any);
+      router.addRoute('PUT', '/users/:id', (() => {}) as any);
+
+      expect(router.allowedMethods('/users/1')).toEqual(['GET', 'HEAD', 'PUT']);
+    });
+  });
+
+  describe('constraints', () => {
+    const req = (headers: Record<string, string>) => new Request('http://localhost/', { headers });
+
+    it('should match routes by exact host', () => {
+      const router = new Router();
+      router.addRoute('GET', '/', (() => 'api') as any, 'serverless', undefined, undefined, {
+        constraints: { host: 'api.example.com' },
+      });
+      router.addRoute('GET', '/', (() => 'www') as any);
+
+      expect(router.match('GET', '/', req({ host: 'api.example.com:8080' }))!.route.url).toBe('/');
+      expect(router.match('GET', '/', req({ host: 'api.example.com' }))!.route.constraints).toEqual({
+        host: 'api.example.com',
+      });
+      expect(router.match('GET', '/', req({ host: 'www.example.com' }))!.route.constraints).toBeUndefined();
+    });
+
+    it('should capture wildcard subdomains', () => {
+      const router = new Router();
+      router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+        constraints: { host: '*.example.com' },
+      });
+
+      expect(router.match('GET', '/', req({ host: 'acme.example.com' }))!.captures).toEqual({
+        subdomain: 'acme',
+      });
+      expect(router.match('GET', '/', req({ host: 'example.com' }))).toBeNull();
+    });
+
+    it('should capture named groups from RegExp hosts', () => {
+      const router = new Router();
+      router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+        constraints: { host: /^(?<region>[a-z]+)\.cdn\.test$/ },
+      });
+
+      expect(router.match('GET', '/', req({ host: 'eu.cdn.test' }))!.captures).toEqual({ region: 'eu' });
+    });
+
+    it('should prefer exact hosts over wildcards', () => {
+      const router = new Router();
+      const add = (host: string) =>
+        router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+          constraints: { host },
+        });
+      add('*.example.com');
+      add('admin.example.com');
+
+      expect(router.match('GET', '/', req({ host: 'admin.example.com' }))!.route.constraints!.host).toBe(
+        'admin.example.com',
+      );
+    });
+
+    it('should pick the highest version satisfying Accept-Version', () => {
+      const router = new Router();
+      for (const version of ['1.0.0', '1.4.2', '2.0.0']) {
+        router.addRoute('GET', '/items', (() => {}) as any, 'serverless', undefined, undefined, {
+          constraints: { version },
+        });
+      }
+      const version = (range: string) =>
+        router.match('GET', '/items', req({ 'accept-version': range }))?.route.constraints!.version;
+
+      expect(version('1.x')).toBe('1.4.2');
+      expect(version('^1.0.0')).toBe('1.4.2');
+      expect(version('~1.0')).toBe('1.0.0');
+      expect(version('>=1.0.0 <1.4.0')).toBe('1.0.0');
+      expect(version('1 || 2')).toBe('2.0.0');
+      expect(version('3.x')).toBeUndefined();
+    });
+
+    it('should not fall back to unversioned routes when Accept-Version is sent', () => {
+      const router = new Router();
+      router.addRoute('GET', '/items', (() => {}) as any);
+      router.addRoute('GET', '/items', (() => {}) as any, 'serverless', undefined, undefined, {
+        constraints: { version: '1.0.0' },
+      });
+
+      expect(router.match('GET', '/items')!.route.constraints).toBeUndefined();
+      expect(router.match('GET', '/items', req({ 'accept-version': '2' }))).toBeNull();
+    });
+
+    it('should ignore Accept-Version when no route is versioned', () => {
+      const router = new Router();
+      router.addRoute('GET', '/items', (() => {}) as any);
+
+      expect(router.match('GET', '/items', req({ 'accept-version': '1' }))).not.toBeNull();
+    });
+
+    it('should support custom strategies', () => {
+      const router = new Router();
+      router.addConstraintStrategy({
+        name: 'tenant',
+        deriveConstraint: (request) => request.headers.get('x-tenant') ?? undefined,
+        match: (value, derived) => value === derived,
+      });
+      router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+        constraints: { tenant: 'acme' },
+      });
+
+      expect(router.match('GET', '/', req({ 'x-tenant': 'acme' }))).not.toBeNull();
+      expect(router.match('GET', '/', req({ 'x-tenant': 'other' }))).toBeNull();
+    });
+
+    it('should reject unknown constraints and invalid versions', () => {
+      const router = new Router();
+
+      expect(() =>
+        router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+          constraints: { tenant: 'acme' },
+        }),
+      ).toThrow('Route "GET /" uses unknown constraint "tenant"');
+      expect(() =>
+        router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, {
+          constraints: { version: 'latest' },
+        }),
+      ).toThrow('Version constraint must be a semver version, got "latest"');
+    });
+
+    it('should only conflict when constraints are identical', () => {
+      const router = new Router();
+      const add = (constraints?: Record<string, string>) =>
+        router.addRoute('GET', '/', (() => {}) as any, 'serverless', undefined, undefined, { constraints });
+      add({ host: 'a.test' });
+      add({ host: 'b.test' });
+      add();
+
+      expect(() => add({ host: 'a.test' })).toThrow(RouteConflictError);
+    });
+  });
+
   describe('getAllRoutes', () => {
     it('should return all registered routes', () => {
       const router = new Router();
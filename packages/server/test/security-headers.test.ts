@@ -0,0 +1,143 @@
+// @vura/server — Tests for the security headers plugin
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import { securityHeaders, securityPolicy } from '../src/security-headers.js';
+
+// ─── Helpers ───
+
+function get(url: string): Request {
+  return new Request(`http://localhost${url}`);
+}
+
+// ─── Tests ───
+
+describe('securityHeaders', () => {
+  it('should send the default headers', async () => {
+    const app = createApp();
+    await app.register(securityHeaders);
+    app.get('/', () => 'ok');
+
+    const response = await app.handle(get('/'));
+    expect(response.headers.get('strict-transport-security')).toBe('max-age=15552000; includeSubDomains');
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(response.headers.get('referrer-policy')).toBe('no-referrer');
+    expect(response.headers.get('cross-origin-opener-policy')).toBe('same-origin');
+    expect(response.headers.get('cross-origin-embedder-policy')).toBe('require-corp');
+    expect(response.headers.get('permissions-policy')).toBe('camera=(), microphone=(), geolocation=(), payment=()');
+    expect(response.headers.get('content-security-policy')).toContain("default-src 'self'; base-uri 'self'");
+    expect(response.headers.get('content-security-policy')).toContain('; upgrade-insecure-requests');
+  });
+
+  it('should add a fresh nonce per request to script-src and style-src', async () => {
+    const app = createApp();
+    await app.register(securityHeaders);
+    app.get('/', (request, reply) => reply.html(`<script nonce="${request.cspNonce}">boot()</script>`));
+
+    const first = await app.handle(get('/'));
+    const nonce = /nonce="([^"]+)"/.exec(await first.text())![1]!;
+    const csp = first.headers.get('content-security-policy')!;
+    expect(csp).toContain(`script-src 'self' 'nonce-${nonce}'`);
+    expect(csp).toContain(`style-src 'self' 'nonce-${nonce}'`);
+    expect(csp).toContain("script-src-attr 'none';");
+
+    const second = await app.handle(get('/'));
+    expect(await second.text()).not.toContain(nonce);
+  });
+
+  it('should add headers to error, unmatched and early replies', async () => {
+    const app = createApp();
+    app.addHook('onRequest', (request) => {
+      if (request.headers.has('x-over-limit')) return new Response('Too Many Requests', { status: 429 });
+    });
+    await app.register(securityHeaders);
+    app.get('/invalid', () => { throw Object.assign(new Error('Bad input'), { statusCode: 400 }); });
+
+    const responses = [
+      await app.handle(get('/invalid')),
+      await app.handle(get('/missing')),
+      await app.handle(new Request('http://localhost/invalid', { headers: { 'x-over-limit': '1' } })),
+    ];
+    expect(responses.map((response) => response.status)).toEqual([400, 404, 429]);
+    for (const response of responses) {
+      expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+      expect(response.headers.get('content-security-policy')).toMatch(/script-src 'self' 'nonce-[^']+'/);
+    }
+  });
+
+  it('should merge options over the defaults', async () => {
+    const app = createApp();
+    await app.register(securityHeaders, {
+      contentSecurityPolicy: {
+        directives: { 'img-src': ["'self'", 'https://cdn.example'], 'upgrade-insecure-requests': false },
+        reportOnly: true,
+      },
+      strictTransportSecurity: { preload: true },
+      crossOriginEmbedderPolicy: false,
+      permissionsPolicy: { camera: ['self', 'https://meet.example'] },
+    });
+    app.get('/', () => 'ok');
+
+    const response = await app.handle(get('/'));
+    const csp = response.headers.get('content-security-policy-report-only')!;
+    expect(response.headers.has('content-security-policy')).toBe(false);
+    expect(csp).toContain("img-src 'self' https://cdn.example");
+    expect(csp).toContain("default-src 'self'");
+    expect(csp).not.toContain('upgrade-insecure-requests');
+    expect(response.headers.get('strict-transport-security')).toBe('max-age=15552000; includeSubDomains; preload');
+    expect(response.headers.has('cross-origin-embedder-policy')).toBe(false);
+    expect(response.headers.get('permissions-policy')).toContain('camera=(self "https://meet.example"), microphone=()');
+  });
+
+  it('should keep headers the route set itself', async () => {
+    const app = createApp();
+    await app.register(securityHeaders);
+    app.get('/', (request, reply) => reply.header('referrer-policy', 'same-origin').send('ok'));
+
+    const response = await app.handle(get('/'));
+    expect(response.headers.get('referrer-policy')).toBe('same-origin');
+  });
+
+  it('should let register scopes and routes override the policy', async () => {
+    const app = createApp();
+    await app.register(securityHeaders);
+    app.get('/', () => 'ok');
+    await app.register(async (embeds) => {
+      embeds.addHook('onRequest', securityPolicy({
+        contentSecurityPolicy: { directives: { 'frame-ancestors': ['https://partner.example'] } },
+        crossOriginEmbedderPolicy: false,
+      }));
+      embeds.get('/widget', () => 'ok');
+      await embeds.register(async (legacy) => {
+        legacy.addHook('onRequest', securityPolicy({ referrerPolicy: 'origin' }));
+        legacy.get('/old', () => 'ok');
+      }, { prefix: '/legacy' });
+    }, { prefix: '/embed' });
+    app.route({ method: 'GET', url: '/raw', config: { securityHeaders: false }, handler: () => 'ok' });
+    app.route({
+      method: 'GET',
+      url: '/frameable',
+      config: { securityHeaders: { contentSecurityPolicy: { directives: { 'frame-ancestors': ['*'] } } } },
+      handler: () => 'ok',
+    });
+
+    const root = await app.handle(get('/'));
+    expect(root.headers.get('content-security-policy')).toContain("frame-ancestors 'self'");
+
+    const widget = await app.handle(get('/embed/widget'));
+    expect(widget.headers.get('content-security-policy')).toContain('frame-ancestors https://partner.example');
+    expect(widget.headers.has('cross-origin-embedder-policy')).toBe(false);
+    expect(widget.headers.get('referrer-policy')).toBe('no-referrer');
+
+    const old = await app.handle(get('/embed/legacy/old'));
+    expect(old.headers.get('content-security-policy')).toContain('frame-ancestors https://partner.example');
+    expect(old.headers.get('referrer-policy')).toBe('origin');
+
+    const raw = await app.handle(get('/raw'));
+    expect(raw.headers.has('content-security-policy')).toBe(false);
+    expect(raw.headers.has('x-content-type-options')).toBe(false);
+
+    const frameable = await app.handle(get('/frameable'));
+    expect(frameable.headers.get('content-security-policy')).toContain('frame-ancestors *');
+  });
+});
@@ -0,0 +1,128 @@
+// @vura/server — Tests for reply.sendFile
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApp } from '../src/app.js';
+
+const CONTENT = 'abcdefghijklmnopqrstuvwxyz';
+
+let root: string;
+
+function serve(options: { maxAge?: number; immutable?: boolean } = {}) {
+  const app = createApp();
+  app.get('/files/*path', (req, reply) => reply.sendFile(req.params.path!, { root, ...options }));
+  return app;
+}
+
+function get(app: ReturnType<typeof createApp>, path: string, headers: Record<string, string> = {}, method = 'GET') {
+  return app.handle(new Request(`http://localhost${path}`, { method, headers }));
+}
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'vura-send-file-'));
+  await writeFile(join(root, 'alphabet.txt'), CONTENT);
+  await writeFile(join(root, 'logo.svg'), '<svg/>');
+  await mkdir(join(root, 'nested'));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('reply.sendFile', () => {
+  it('should stream the file with type, length and validators', async () => {
+    const response = await get(serve({ maxAge: 3600, immutable: true }), '/files/alphabet.txt');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(CONTENT);
+    expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    expect(response.headers.get('content-length')).toBe('26');
+    expect(response.headers.get('etag')).toMatch(/^"1a-[0-9a-f]+"$/);
+    expect(response.headers.get('last-modified')).toBeTruthy();
+    expect(response.headers.get('cache-control')).toBe('public, max-age=3600, immutable');
+    expect(response.headers.get('accept-ranges')).toBe('bytes');
+  });
+
+  it('should detect MIME types', async () => {
+    const response = await get(serve(), '/files/logo.svg');
+    expect(response.headers.get('content-type')).toBe('image/svg+xml');
+  });
+
+  it('should answer 304 for a matching If-None-Match or If-Modified-Since', async () => {
+    const app = serve();
+    const first = await get(app, '/files/alphabet.txt');
+    await first.body?.cancel();
+
+    const byEtag = await get(app, '/files/alphabet.txt', { 'if-none-match': `W/${first.headers.get('etag')}` });
+    expect(byEtag.status).toBe(304);
+    expect(byEtag.headers.get('etag')).toBe(first.headers.get('etag'));
+    expect(await byEtag.text()).toBe('');
+
+    const byDate = await get(app, '/files/alphabet.txt', {
+      'if-modified-since': first.headers.get('last-modified')!,
+    });
+    expect(byDate.status).toBe(304);
+
+    const stale = await get(app, '/files/alphabet.txt', { 'if-none-match': '"other"' });
+    expect(stale.status).toBe(200);
+    await stale.body?.cancel();
+  });
+
+  it('should serve a single range with 206', async () => {
+    const response = await get(serve(), '/files/alphabet.txt', { range: 'bytes=2-5' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 2-5/26');
+    expect(response.headers.get('content-length')).toBe('4');
+    expect(await response.text()).toBe('cdef');
+
+    const suffix = await get(serve(), '/files/alphabet.txt', { range: 'bytes=-3' });
+    expect(await suffix.text()).toBe('xyz');
+  });
+
+  it('should serve several ranges as multipart/byteranges', async () => {
+    const response = await get(serve(), '/files/alphabet.txt', { range: 'bytes=0-1, 24-' });
+
+    expect(response.status).toBe(206);
+    const type = response.headers.get('content-type')!;
+    const boundary = /boundary=(.+)$/.exec(type)![1];
+    const body = await response.text();
+
+    expect(body.length).toBe(Number(response.headers.get('content-length')));
+    expect(body).toContain(`--${boundary}\r\ncontent-type: text/plain; charset=utf-8\r\ncontent-range: bytes 0-1/26\r\n\r\nab`);
+    expect(body).toContain('content-range: bytes 24-25/26\r\n\r\nyz');
+    expect(body.endsWith(`\r\n--${boundary}--\r\n`)).toBe(true);
+  });
+
+  it('should answer 416 for unsatisfiable ranges and ignore stale If-Range', async () => {
+    const unsatisfiable = await get(serve(), '/files/alphabet.txt', { range: 'bytes=100-200' });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get('content-range')).toBe('bytes */26');
+
+    const stale = await get(serve(), '/files/alphabet.txt', { range: 'bytes=0-1', 'if-range': '"stale"' });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe(CONTENT);
+  });
+
+  it('should reject paths that escape the root', async () => {
+    const app = createApp();
+    app.get('/download', (req, reply) => reply.sendFile(req.query.file!, { root }));
+
+    const response = await get(app, `/download?file=${encodeURIComponent('../../etc/passwd')}`);
+    expect(response.status).toBe(403);
+  });
+
+  it('should answer 404 for missing files and directories', async () => {
+    expect((await get(serve(), '/files/missing.txt')).status).toBe(404);
+    expect((await get(serve(), '/files/nested')).status).toBe(404);
+  });
+
+  it('should send headers without a body for HEAD', async () => {
+    const response = await get(serve(), '/files/alphabet.txt', {}, 'HEAD');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-length')).toBe('26');
+    expect(await response.text()).toBe('');
+  });
+});
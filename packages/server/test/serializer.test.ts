@@ -0,0 +1,92 @@
+// @vura/server — Tests for schema-driven response serialization
+
+import { describe, it, expect } from 'vitest';
+import { buildStringifier } from '../src/serializer.js';
+
+describe('buildStringifier', () => {
+  it('should drop properties the schema does not declare', () => {
+    const stringify = buildStringifier({
+      type: 'object',
+      properties: { id: { type: 'string' }, name: { type: 'string' } },
+    });
+
+    const json = stringify({ id: '1', name: 'Ada', passwordHash: 'secret' });
+    expect(JSON.parse(json)).toEqual({ id: '1', name: 'Ada' });
+  });
+
+  it('should filter nested objects and array items', () => {
+    const stringify = buildStringifier({
+      type: 'object',
+      properties: {
+        users: {
+          type: 'array',
+          items: { type: 'object', properties: { id: { type: 'integer' } } },
+        },
+        meta: { type: 'object', properties: { total: { type: 'number' } } },
+      },
+    });
+
+    const json = stringify({
+      users: [{ id: 1, token: 'x' }, { id: 2.7, token: 'y' }],
+      meta: { total: 2, cursor: 'abc' },
+    });
+    expect(JSON.parse(json)).toEqual({ users: [{ id: 1 }, { id: 2 }], meta: { total: 2 } });
+  });
+
+  it('should coerce primitives to their declared types', () => {
+    const stringify = buildStringifier({
+      type: 'object',
+      properties: {
+        count: { type: 'number' },
+        label: { type: 'string' },
+        active: { type: 'boolean' },
+        createdAt: { type: 'string' },
+      },
+    });
+
+    const json = stringify({ count: '5', label: 42, active: 1, createdAt: new Date(0) });
+    expect(JSON.parse(json)).toEqual({
+      count: 5,
+      label: '42',
+      active: true,
+      createdAt: '1970-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should skip undefined and keep null values', () => {
+    const stringify = buildStringifier({
+      type: 'object',
+      properties: { a: { type: ['string', 'null'] }, b: { type: 'string' } },
+    });
+
+    expect(stringify({ a: null, b: undefined })).toBe('{"a":null}');
+  });
+
+  it('should keep extra properties when additionalProperties is true', () => {
+    const stringify = buildStringifier({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+      additionalProperties: true,
+    });
+
+    expect(JSON.parse(stringify({ id: '1', extra: { x: 1 } }))).toEqual({ id: '1', extra: { x: 1 } });
+  });
+
+  it('should pick the matching anyOf branch', () => {
+    const stringify = buildStringifier({
+      anyOf: [
+        { type: 'string' },
+        { type: 'object', properties: { ok: { type: 'boolean' } } },
+      ],
+    });
+
+    expect(stringify('hi')).toBe('"hi"');
+    expect(stringify({ ok: true, secret: 1 })).toBe('{"ok":true}');
+  });
+
+  it('should fall back to JSON.stringify for free-form schemas', () => {
+    const stringify = buildStringifier({ type: 'object' });
+    expect(stringify({ any: ['thing'] })).toBe('{"any":["thing"]}');
+    expect(buildStringifier({})([1, 'a'])).toBe('[1,"a"]');
+  });
+});
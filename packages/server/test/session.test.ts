@@ -0,0 +1,210 @@
+// @vura/server — Tests for sessions
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApp } from '../src/app.js';
+import { session, MemorySessionStore, FileSessionStore } from '../src/session.js';
+import type { SessionOptions } from '../src/session.js';
+
+// ─── Helpers ───
+
+const secret = 'a-session-secret-that-is-long-enough';
+
+async function createSessionApp(options: Partial<SessionOptions> = {}) {
+  const app = createApp();
+  await app.register(session, { secret, ...options });
+
+  app.get('/count', (req) => {
+    const count = (req.session!.get<number>('count') ?? 0) + 1;
+    req.session!.set('count', count);
+    return { count };
+  });
+  app.get('/peek', (req) => ({ count: req.session!.get<number>('count') ?? 0, isNew: req.session!.isNew }));
+  app.post('/login', (req) => {
+    req.session!.regenerate();
+    req.session!.set('user', 'ada');
+    return { id: req.session!.id ?? null };
+  });
+  app.post('/logout', (req) => {
+    req.session!.destroy();
+    return { ok: true };
+  });
+  return app;
+}
+
+/** The `name=value` pair from a response's session cookie */
+function sessionCookie(response: Response, name = 'sid'): string | undefined {
+  return response.headers.getSetCookie().find((c) => c.startsWith(`${name}=`))?.split(';')[0];
+}
+
+function get(url: string, cookie?: string, method = 'GET'): Request {
+  return new Request(`http://localhost${url}`, { method, headers: cookie ? { cookie } : {} });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── Tests ───
+
+describe('session', () => {
+  it('should keep data in an encrypted cookie', async () => {
+    const app = await createSessionApp();
+
+    const first = await app.handle(get('/count'));
+    const cookie = sessionCookie(first)!;
+    expect(first.headers.get('set-cookie')).toContain('HttpOnly');
+    expect(first.headers.get('set-cookie')).toContain('SameSite=Lax');
+    expect(first.headers.get('cache-control')).toBe('private, no-store');
+    expect(cookie).not.toContain('count');
+
+    const second = await app.handle(get('/count', cookie));
+    expect(await second.json()).toEqual({ count: 2 });
+  });
+
+  it('should only send a cookie when the session changed', async () => {
+    const app = await createSessionApp();
+
+    const empty = await app.handle(get('/peek'));
+    expect(sessionCookie(empty)).toBeUndefined();
+
+    const cookie = sessionCookie(await app.handle(get('/count')))!;
+    const read = await app.handle(get('/peek', cookie));
+    expect(await read.json()).toEqual({ count: 1, isNew: false });
+    expect(sessionCookie(read)).toBeUndefined();
+  });
+
+  it('should ignore tampered cookies and decrypt with rotated secrets', async () => {
+    const app = await createSessionApp();
+    const cookie = sessionCookie(await app.handle(get('/count')))!;
+
+    const tampered = await app.handle(get('/peek', `${cookie.slice(0, -2)}xx`));
+    expect(await tampered.json()).toEqual({ count: 0, isNew: true });
+
+    const rotated = await createSessionApp({ secret: ['a-brand-new-secret', secret] });
+    const reissued = await rotated.handle(get('/peek', cookie));
+    expect(await reissued.json()).toEqual({ count: 1, isNew: false });
+
+    // Re-issued under the new secret, so the old one can be dropped
+    const renewed = sessionCookie(reissued)!;
+    const current = await createSessionApp({ secret: 'a-brand-new-secret' });
+    expect(await (await current.handle(get('/peek', renewed))).json()).toEqual({ count: 1, isNew: false });
+    expect(sessionCookie(await rotated.handle(get('/peek', renewed)))).toBeUndefined();
+  });
+
+  it('should save changes made before an error or an early reply', async () => {
+    const app = await createSessionApp();
+    app.get('/fail', (req) => {
+      req.session!.set('count', 10);
+      throw new Error('boom');
+    });
+    app.route({
+      method: 'GET',
+      url: '/deny',
+      preHandler: (req, reply) => {
+        req.session!.set('count', 20);
+        return reply.status(403).json({ error: 'Forbidden' });
+      },
+      handler: () => ({ ok: true }),
+    });
+
+    const failed = await app.handle(get('/fail'));
+    expect(failed.status).toBe(500);
+    expect(await (await app.handle(get('/peek', sessionCookie(failed)))).json()).toEqual({ count: 10, isNew: false });
+
+    const denied = await app.handle(get('/deny'));
+    expect(denied.status).toBe(403);
+    expect(await (await app.handle(get('/peek', sessionCookie(denied)))).json()).toEqual({ count: 20, isNew: false });
+  });
+
+  it('should expire sessions and refresh them when rolling', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const app = await createSessionApp({ maxAge: 100 });
+    const cookie = sessionCookie(await app.handle(get('/count')))!;
+
+    vi.setSystemTime(40_000);
+    expect(sessionCookie(await app.handle(get('/peek', cookie)))).toBeUndefined();
+
+    vi.setSystemTime(60_000);
+    const refreshed = await app.handle(get('/peek', cookie));
+    const renewed = sessionCookie(refreshed)!;
+    expect(renewed).toBeDefined();
+
+    vi.setSystemTime(120_000);
+    expect(await (await app.handle(get('/peek', cookie))).json()).toEqual({ count: 0, isNew: true });
+    expect(await (await app.handle(get('/peek', renewed))).json()).toEqual({ count: 1, isNew: false });
+  });
+
+  it('should not refresh when rolling is off', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const app = await createSessionApp({ maxAge: 100, rolling: false });
+    const cookie = sessionCookie(await app.handle(get('/count')))!;
+
+    vi.setSystemTime(90_000);
+    expect(sessionCookie(await app.handle(get('/peek', cookie)))).toBeUndefined();
+  });
+
+  it('should clear the cookie on destroy', async () => {
+    const app = await createSessionApp();
+    const cookie = sessionCookie(await app.handle(get('/count')))!;
+
+    const response = await app.handle(get('/logout', cookie, 'POST'));
+    expect(response.headers.get('set-cookie')).toMatch(/^sid=; Max-Age=0/);
+  });
+
+  it('should refuse sessions too large for a cookie', async () => {
+    const app = createApp();
+    await app.register(session, { secret });
+    app.get('/big', (req) => {
+      req.session!.set('blob', 'x'.repeat(5000));
+      return { ok: true };
+    });
+
+    const response = await app.handle(get('/big'));
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('session stores', () => {
+  it('should keep data server-side with a signed id', async () => {
+    const store = new MemorySessionStore();
+    const app = await createSessionApp({ store });
+
+    const login = await app.handle(get('/login', undefined, 'POST'));
+    const { id } = (await login.json()) as { id: string };
+    const cookie = sessionCookie(login)!;
+    expect(cookie.startsWith(`sid=${id}.`)).toBe(true);
+    expect((await store.get(id))?.data).toEqual({ user: 'ada' });
+
+    // Regenerating drops the old id
+    const again = await app.handle(get('/login', cookie, 'POST'));
+    const next = (await again.json()) as { id: string };
+    expect(next.id).not.toBe(id);
+    expect(await store.get(id)).toBeUndefined();
+
+    // A forged id is not signed
+    const forged = await app.handle(get('/peek', `sid=${next.id}.forged`));
+    expect(await forged.json()).toEqual({ count: 0, isNew: true });
+
+    await app.handle(get('/logout', sessionCookie(again), 'POST'));
+    expect(await store.get(next.id)).toBeUndefined();
+  });
+
+  it('should store sessions as files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vura-sessions-'));
+    try {
+      const app = await createSessionApp({ store: new FileSessionStore(dir) });
+      const cookie = sessionCookie(await app.handle(get('/count')))!;
+      expect(await readdir(dir)).toHaveLength(1);
+
+      expect(await (await app.handle(get('/count', cookie))).json()).toEqual({ count: 2 });
+
+      await app.handle(get('/logout', cookie, 'POST'));
+      expect(await readdir(dir)).toHaveLength(0);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
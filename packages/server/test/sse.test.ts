@@ -0,0 +1,146 @@
+// @vura/server — Tests for Server-Sent Events
+
+import { describe, it, expect } from 'vitest';
+import { createApp } from '../src/app.js';
+import { formatEvent } from '../src/sse.js';
+
+async function readChunks(response: Response, count: number): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let i = 0; i < count; i++) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  reader.releaseLock();
+  return text;
+}
+
+describe('formatEvent', () => {
+  it('should format every field and split multi-line data', () => {
+    expect(formatEvent({ event: 'progress', id: 7, retry: 2000, data: 'line 1\nline 2' })).toBe(
+      'event: progress\nid: 7\nretry: 2000\ndata: line 1\ndata: line 2\n\n',
+    );
+    expect(formatEvent({ data: { percent: 50 } })).toBe('data: {"percent":50}\n\n');
+    expect(formatEvent('hello')).toBe('data: hello\n\n');
+    expect(formatEvent({ comment: 'ping' })).toBe(': ping\n\n');
+  });
+
+  it('should reject newlines in event and id', () => {
+    expect(() => formatEvent({ event: 'a\nb' })).toThrow('SSE event must not contain newlines');
+  });
+});
+
+describe('reply.sse', () => {
+  it('should stream events from an async iterable', async () => {
+    const app = createApp();
+    app.get('/events', (req, reply) =>
+      reply.sse(
+        (async function* () {
+          yield { event: 'start', data: 'go' };
+          yield { id: 1, data: { done: true } };
+        })(),
+        { retry: 3000 },
+      ),
+    );
+
+    const response = await app.handle(new Request('http://localhost/events'));
+    expect(response.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+    expect(await response.text()).toBe(
+      'retry: 3000\n\nevent: start\ndata: go\n\nid: 1\ndata: {"done":true}\n\n',
+    );
+  });
+
+  it('should pass Last-Event-ID to function sources', async () => {
+    const app = createApp();
+    app.get('/events', (req, reply) =>
+      reply.sse((stream) => {
+        stream.send({ data: `resume after ${stream.lastEventId}` });
+        stream.close();
+      }),
+    );
+
+    const response = await app.handle(
+      new Request('http://localhost/events', { headers: { 'last-event-id': '41' } }),
+    );
+    expect(await response.text()).toBe('data: resume after 41\n\n');
+  });
+
+  it('should read iterables only as fast as the client takes events', async () => {
+    let produced = 0;
+    const app = createApp();
+    app.get('/events', (req, reply) =>
+      reply.sse(
+        (async function* () {
+          while (true) yield String(++produced);
+        })(),
+        { heartbeat: 0 },
+      ),
+    );
+
+    const response = await app.handle(new Request('http://localhost/events'));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(produced).toBeLessThanOrEqual(2);
+
+    expect(await readChunks(response, 3)).toBe('data: 1\n\ndata: 2\n\ndata: 3\n\n');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(produced).toBeLessThanOrEqual(5);
+    await response.body!.cancel();
+  });
+
+  it('should send heartbeat comments', async () => {
+    const app = createApp();
+    app.get('/events', (req, reply) => reply.sse(() => {}, { heartbeat: 10 }));
+
+    const response = await app.handle(new Request('http://localhost/events'));
+    expect(await readChunks(response, 2)).toBe(':\n\n:\n\n');
+    await response.body!.cancel();
+  });
+
+  it('should stop iterating when the request is aborted', async () => {
+    let finalized = false;
+    let unsubscribed = false;
+    const controller = new AbortController();
+
+    const app = createApp();
+    app.get('/iterable', (req, reply) =>
+      reply.sse(
+        (async function* () {
+          try {
+            yield 'first';
+            while (true) {
+              await new Promise((resolve) => setTimeout(resolve, 5));
+              yield 'tick';
+            }
+          } finally {
+            finalized = true;
+          }
+        })(),
+        { heartbeat: 0 },
+      ),
+    );
+    app.get('/push', (req, reply) =>
+      reply.sse((stream) => {
+        stream.signal.addEventListener('abort', () => {
+          unsubscribed = true;
+        });
+      }),
+    );
+
+    const response = await app.handle(new Request('http://localhost/iterable', { signal: controller.signal }));
+    const reader = response.body!.getReader();
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe('data: first\n\n');
+    controller.abort();
+    expect(await reader.read()).toEqual({ done: true, value: undefined });
+
+    const push = await app.handle(new Request('http://localhost/push'));
+    await push.body!.cancel();
+    expect(unsubscribed).toBe(true);
+
+    // return() runs once the generator's pending await settles
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(finalized).toBe(true);
+  });
+});